@@ -1,7 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { resolve } from 'path';
-import { mkdir, writeFile, rm } from 'fs/promises';
+import { mkdir, writeFile, readFile, readdir, rm, stat } from 'fs/promises';
 import { tmpdir } from 'os';
+import { build } from 'vite';
 import svgSpritePlugin from '../vite-svg-sprite-generator-plugin.js';
 
 describe('vite-svg-sprite-generator-plugin', () => {
@@ -20,6 +21,28 @@ describe('vite-svg-sprite-generator-plugin', () => {
     await rm(testDir, { recursive: true, force: true });
   });
 
+  // Вывод Rollup: renderChunk каждого чанка (meta.chunks - сам бандл), затем generateBundle
+  const renderBundle = async (context, bundle) => {
+    for (const output of Object.values(bundle)) {
+      if (output.type !== 'chunk') continue;
+      const result = await plugin.renderChunk.call(context, output.code, output, {}, { chunks: bundle });
+      output.code = result?.code ?? output.code;
+    }
+    await plugin.generateBundle.handler.call(context, {}, bundle);
+  };
+
+  // Настоящая сборка Vite без записи на диск: имена файлов чанков (с хешами)
+  const buildChunkNames = async (pluginOptions) => {
+    const { output } = await build({
+      root: testDir,
+      configFile: false,
+      logLevel: 'silent',
+      build: { write: false },
+      plugins: [svgSpritePlugin({ iconsFolder: 'src/icons', verbose: false, treeShaking: true, ...pluginOptions })]
+    });
+    return output.filter(file => file.type === 'chunk').map(file => file.fileName).sort();
+  };
+
   describe('Инициализация плагина', () => {
     it('должен создавать плагин с дефолтными опциями', () => {
       plugin = svgSpritePlugin();
@@ -280,8 +303,7 @@ describe('vite-svg-sprite-generator-plugin', () => {
       
       const scriptTag = result.find(tag => tag.tag === 'script');
       expect(scriptTag).toBeDefined();
-      expect(scriptTag.children).toContain('import.meta.hot');
-      expect(scriptTag.children).toContain('svg-sprite-update');
+      expect(scriptTag.children).toBe("import 'virtual:svg-sprite/client';");
     });
   });
 
@@ -543,6 +565,2010 @@ describe('vite-svg-sprite-generator-plugin', () => {
     });
   });
 
+  describe('XML разбор SVG файлов', () => {
+    const buildSpriteChildren = async () => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', verbose: false });
+      plugin.configResolved({ root: testDir, command: 'build', mode: 'production' });
+      await plugin.buildStart();
+
+      const result = await plugin.transformIndexHtml.handler('<html></html>', { server: undefined, filename: 'index.html' });
+      return result.find(tag => tag.tag === 'svg').children;
+    };
+
+    it('должен сохранять вложенные <svg> и брать viewBox корневого элемента', async () => {
+      await writeFile(
+        resolve(testDir, 'src/icons/nested.svg'),
+        '<svg><svg viewBox="0 0 8 8" width="8"><circle r="2"/></svg><path d="M1 1h2"/></svg>'
+      );
+
+      const children = await buildSpriteChildren();
+
+      expect(children).toContain(
+        '<symbol id="nested" viewBox="0 0 24 24"><svg viewBox="0 0 8 8" width="8"><circle r="2"/></svg><path d="M1 1h2"/></symbol>'
+      );
+    });
+
+    it('должен обрабатывать XML декларацию, DOCTYPE с сущностями, комментарии и CDATA', async () => {
+      await writeFile(resolve(testDir, 'src/icons/illustrator.svg'), [
+        '<?xml version="1.0" encoding="utf-8"?>',
+        '<!-- Generator: Adobe Illustrator -->',
+        '<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN" "http://www.w3.org/Graphics/SVG/1.1/DTD/svg11.dtd" [',
+        '  <!ENTITY ns_svg "http://www.w3.org/2000/svg">',
+        '  <!ENTITY st0 "fill:#f00">',
+        ']>',
+        '<svg xmlns="&ns_svg;" viewBox="0 0 16 16">',
+        '<style><![CDATA[ .a > b { fill: red } ]]></style><!-- </svg> -->',
+        '<path style="&st0;" d="M1 1h2"/><text>&lt;&amp;</text>',
+        '</svg>'
+      ].join('\n'));
+
+      const children = await buildSpriteChildren();
+
+      expect(children).toContain('<symbol id="illustrator" viewBox="0 0 16 16">');
+      expect(children).toContain('<style><![CDATA[ .a > b { fill: red } ]]></style>');
+      expect(children).toContain('<path style="fill:#f00" d="M1 1h2"/><text>&lt;&amp;</text></symbol>');
+    });
+
+    it('должен подставлять значения сущностей DOCTYPE как текст, а не разметку', async () => {
+      await writeFile(resolve(testDir, 'src/icons/evil.svg'), [
+        "<!DOCTYPE svg [<!ENTITY o '<'>]>",
+        '<svg viewBox="0 0 24 24"><text>&o;script/x>alert(document.domain)&o;/script></text></svg>'
+      ].join('\n'));
+
+      const children = await buildSpriteChildren();
+
+      expect(children).not.toContain('<script');
+      expect(children).toContain('<text>&lt;script/x>alert(document.domain)&lt;/script></text>');
+    });
+
+    it('должен принимать только числовой viewBox', async () => {
+      await writeFile(
+        resolve(testDir, 'src/icons/evil.svg'),
+        `<svg viewBox='0 0 24 24" onload="alert(1)' width="16" height="16"><path d="M1 1h2"/></svg>`
+      );
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), '<svg viewBox="0,0 , 32 32"><path d="M1 1h2"/></svg>');
+
+      const children = await buildSpriteChildren();
+
+      expect(children).not.toContain('alert');
+      expect(children).toContain('<symbol id="evil" viewBox="0 0 16 16">');
+      expect(children).toContain('<symbol id="home" viewBox="0 0 32 32">');
+    });
+
+    it('должен сообщать о некорректной разметке с номером строки и колонки', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation();
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), '<svg viewBox="0 0 24 24"><path d="M1 1h2"/></svg>');
+      await writeFile(resolve(testDir, 'src/icons/broken.svg'), '<svg viewBox="0 0 24 24">\n  <g>\n    <path d="M1 1"/>\n  </svg>');
+      await writeFile(resolve(testDir, 'src/icons/ampersand.svg'), '<svg viewBox="0 0 24 24"><text>A & B</text></svg>');
+
+      const children = await buildSpriteChildren();
+
+      expect(children).toContain('<symbol id="home"');
+      expect(children).not.toContain('broken');
+      const messages = consoleSpy.mock.calls.map(([message]) => message).join('\n');
+      expect(messages).toContain('Unexpected closing tag </svg>, expected </g> (line 4, column 3)');
+      expect(messages).toContain('Unescaped "&" (line 1, column 34)');
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('rootAttributes: атрибуты корневого <svg>', () => {
+    const LUCIDE_ICON = '<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" ' +
+      'stroke="currentColor" stroke-width="2" stroke-linecap="round" class="lucide" aria-hidden="true" onload="alert(1)">' +
+      '<path d="M3 9l9-7 9 7"/></svg>';
+
+    const buildSpriteChildren = async (pluginOptions = {}) => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', verbose: false, ...pluginOptions });
+      plugin.configResolved({ root: testDir, command: 'build', mode: 'production' });
+      await plugin.buildStart();
+
+      const result = await plugin.transformIndexHtml.handler('<html></html>', { server: undefined, filename: 'index.html' });
+      return result.find(tag => tag.tag === 'svg').children;
+    };
+
+    it('не должен оставлять цвет корневого <svg> на <symbol> mono иконки', async () => {
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), '<svg viewBox="0 0 24 24" fill="#ff0000" stroke="none"><path fill="#f00" d="M1 1h2"/></svg>');
+
+      const children = await buildSpriteChildren({ svgoOptimize: true });
+
+      expect(children).toContain('<symbol id="home" viewBox="0 0 24 24" fill="currentColor" stroke="none"><path fill="currentColor" d="M1 1h2"/></symbol>');
+    });
+
+    it('должен переносить презентационные и aria-* атрибуты на <symbol>', async () => {
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), LUCIDE_ICON);
+
+      const children = await buildSpriteChildren();
+
+      expect(children).toContain(
+        '<symbol id="home" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" ' +
+        'stroke-linecap="round" aria-hidden="true"><path d="M3 9l9-7 9 7"/></symbol>'
+      );
+    });
+
+    it('должен учитывать allow и deny списки', async () => {
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), LUCIDE_ICON);
+
+      const denied = await buildSpriteChildren({ rootAttributes: { deny: ['stroke-width', /^aria-/] } });
+      expect(denied).toContain('<symbol id="home" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-linecap="round">');
+
+      // Обработчики событий не переносятся даже при явном разрешении
+      const allowed = await buildSpriteChildren({ rootAttributes: { allow: ['class', /^on/] } });
+      expect(allowed).toContain('<symbol id="home" viewBox="0 0 24 24" class="lucide">');
+
+      expect(() => {
+        svgSpritePlugin({ rootAttributes: { allow: 'fill' } });
+      }).toThrow(/rootAttributes.allow must be an array of strings or RegExp/);
+    });
+
+    it('должен проверять значения атрибутов корневого <svg> санитайзером', async () => {
+      vi.spyOn(console, 'warn').mockImplementation();
+      await writeFile(
+        resolve(testDir, 'src/icons/tracker.svg'),
+        '<svg viewBox="0 0 24 24" fill="url(https://tracker.example/x.svg#a)" stroke="none"><path d="M1 1h2"/></svg>'
+      );
+      await writeFile(
+        resolve(testDir, 'src/icons/evil.svg'),
+        '<svg viewBox="0 0 24 24" style="fill:url(//evil.example/x.svg#a)" href="java&#115;cript:alert(1)" class="icon"><path d="M1 1h2"/></svg>'
+      );
+
+      const rootAttributes = { allow: ['fill', 'stroke', 'style', 'href', 'class'] };
+      const children = await buildSpriteChildren({ rootAttributes });
+
+      expect(children).toContain('<symbol id="tracker" viewBox="0 0 24 24" stroke="none">');
+      expect(children).toContain('<symbol id="evil" viewBox="0 0 24 24" class="icon">');
+      expect(children).not.toContain('evil.example');
+
+      // Нарушения в корневых атрибутах останавливают сборку, как и в содержимом
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', verbose: false, rootAttributes, failOnUnsafeIcons: true });
+      plugin.configResolved({ root: testDir, command: 'build', mode: 'production' });
+      const error = vi.fn();
+      await plugin.buildStart.call({ emitFile: vi.fn(), error });
+      console.warn.mockRestore();
+
+      expect(error).toHaveBeenCalledTimes(1);
+      expect(error.mock.calls[0][0]).toContain('src/icons/tracker.svg: <svg fill="url(https://tracker.example/x.svg#a)"> (external URL)');
+      expect(error.mock.calls[0][0]).toContain('src/icons/evil.svg: <svg href="java&#115;cript:alert(1)"> (script URL)');
+    });
+
+    it('должен строить viewBox из width и height', async () => {
+      await writeFile(resolve(testDir, 'src/icons/wide.svg'), '<svg width="32px" height="16"><path d="M1 1h2"/></svg>');
+      await writeFile(resolve(testDir, 'src/icons/relative.svg'), '<svg width="100%" height="1em"><path d="M1 1h2"/></svg>');
+
+      const children = await buildSpriteChildren();
+
+      expect(children).toContain('<symbol id="wide" viewBox="0 0 32 16">');
+      expect(children).toContain('<symbol id="relative" viewBox="0 0 24 24">');
+    });
+  });
+
+  describe('scopeIds: уникальные внутренние id', () => {
+    const FIGMA_ICON = (color) => '<svg viewBox="0 0 24 24">' +
+      '<style>#a { opacity: .5 } .b { fill: url(#a) }</style>' +
+      `<g clip-path="url(#clip0)" aria-labelledby="title desc"><path fill="url('#a')" style="filter:url(#a)" d="M1 1h2"/><use href="#a"/></g>` +
+      '<title id="title">Icon</title>' +
+      `<defs><linearGradient id="a"><stop stop-color="${color}"/></linearGradient><clipPath id="clip0"><rect width="24" height="24"/></clipPath></defs>` +
+      '</svg>';
+
+    const buildSpriteChildren = async (pluginOptions = {}) => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', verbose: false, ...pluginOptions });
+      plugin.configResolved({ root: testDir, command: 'build', mode: 'production' });
+      await plugin.buildStart();
+
+      const result = await plugin.transformIndexHtml.handler('<html></html>', { server: undefined, filename: 'index.html' });
+      return result.find(tag => tag.tag === 'svg').children;
+    };
+
+    it('должен переписывать id и ссылки на них в каждом символе', async () => {
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), FIGMA_ICON('#f00'));
+      await writeFile(resolve(testDir, 'src/icons/user.svg'), FIGMA_ICON('#00f'));
+
+      const children = await buildSpriteChildren();
+
+      expect(children).toContain('<style>#home__a { opacity: .5 } .b { fill: url(#home__a) }</style>');
+      expect(children).toContain('<g clip-path="url(#home__clip0)" aria-labelledby="home__title desc">');
+      expect(children).toContain(`<path fill="url('#home__a')" style="filter:url(#home__a)" d="M1 1h2"/><use href="#home__a"/>`);
+      expect(children).toContain('<title id="home__title">');
+      expect(children).toContain('<linearGradient id="home__a">');
+      expect(children).toContain('<clipPath id="home__clip0">');
+      expect(children).toContain('<linearGradient id="user__a">');
+      expect(children).not.toMatch(/id="(a|clip0)"/);
+    });
+
+    it('должен учитывать idPrefix и не трогать ссылки на внешние элементы', async () => {
+      await writeFile(
+        resolve(testDir, 'src/icons/search.svg'),
+        '<svg viewBox="0 0 24 24"><!-- <g id="old"> --><circle id="c" r="4"/><use href="#c"/><use href="#other"/></svg>'
+      );
+
+      const children = await buildSpriteChildren({ idPrefix: 'icon' });
+
+      expect(children).toContain('<!-- <g id="old"> --><circle id="icon-search__c" r="4"/><use href="#icon-search__c"/><use href="#other"/>');
+    });
+
+    it('должен оставлять id без изменений при scopeIds: false', async () => {
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), FIGMA_ICON('#f00'));
+
+      const children = await buildSpriteChildren({ scopeIds: false });
+
+      expect(children).toContain('<linearGradient id="a">');
+      expect(children).toContain('<g clip-path="url(#clip0)"');
+      expect(() => {
+        svgSpritePlugin({ scopeIds: 'yes' });
+      }).toThrow(/scopeIds must be a boolean/);
+    });
+  });
+
+  describe('hoistDefs: общий <defs> спрайта', () => {
+    const GRADIENT_ICON = (color) => '<svg viewBox="0 0 24 24">' +
+      '<defs><linearGradient id="a"><stop stop-color="' + color + '"/></linearGradient>' +
+      '<clipPath id="clip0"><rect width="24" height="24"/></clipPath></defs>' +
+      '<g clip-path="url(#clip0)"><path fill="url(#a)" d="M1 1h2"/></g>' +
+      '</svg>';
+
+    const buildSpriteTag = async (pluginOptions = {}) => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', verbose: false, hoistDefs: true, ...pluginOptions });
+      plugin.configResolved({ root: testDir, command: 'build', mode: 'production' });
+      await plugin.buildStart();
+
+      const result = await plugin.transformIndexHtml.handler('<html></html>', { server: undefined, filename: 'index.html' });
+      return result.find(tag => tag.tag === 'svg');
+    };
+
+    it('должен выносить определения в <defs> спрайта и убирать одинаковые', async () => {
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), GRADIENT_ICON('#f00'));
+      await writeFile(resolve(testDir, 'src/icons/user.svg'), GRADIENT_ICON('#f00'));
+      await writeFile(resolve(testDir, 'src/icons/search.svg'), GRADIENT_ICON('#00f'));
+
+      const { attrs, children } = await buildSpriteTag();
+
+      expect(attrs.style).toBe('position: absolute; width: 0; height: 0; overflow: hidden;');
+      expect(children).toMatch(/^\s*<defs><linearGradient id="home__a">/);
+      expect(children.match(/<linearGradient/g)).toHaveLength(2);
+      expect(children.match(/<clipPath/g)).toHaveLength(1);
+      expect(children).toContain('<linearGradient id="search__a"><stop stop-color="#00f"/>');
+      expect(children).toContain('<symbol id="user" viewBox="0 0 24 24"><g clip-path="url(#home__clip0)"><path fill="url(#home__a)" d="M1 1h2"/></g></symbol>');
+      expect(children).not.toContain('user__');
+    });
+
+    it('должен переписывать ссылки между определениями на оставшиеся id', async () => {
+      const icon = (color) => '<svg viewBox="0 0 24 24">' +
+        '<linearGradient id="base"><stop stop-color="#000"/></linearGradient>' +
+        `<linearGradient id="tint" href="#base" x2="${color}"/>` +
+        '<path fill="url(#tint)" d="M1 1h2"/></svg>';
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), icon('1'));
+      await writeFile(resolve(testDir, 'src/icons/user.svg'), icon('0.5'));
+
+      const { children } = await buildSpriteTag();
+
+      expect(children).toContain('<linearGradient id="user__tint" href="#home__base" x2="0.5"/>');
+      expect(children).toContain('<symbol id="user" viewBox="0 0 24 24"><path fill="url(#user__tint)" d="M1 1h2"/></symbol>');
+      expect(children).not.toContain('user__base');
+    });
+
+    it('должен оставлять определения в символах без hoistDefs', async () => {
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), GRADIENT_ICON('#f00'));
+
+      const { attrs, children } = await buildSpriteTag({ hoistDefs: false });
+
+      expect(attrs.style).toBe('display: none;');
+      expect(children).toContain('<symbol id="home" viewBox="0 0 24 24"><defs><linearGradient id="home__a">');
+      expect(() => {
+        svgSpritePlugin({ hoistDefs: 'yes' });
+      }).toThrow(/hoistDefs must be a boolean/);
+    });
+  });
+
+  describe('colors: стратегии цвета иконок', () => {
+    const DUOTONE_ICON = '<svg viewBox="0 0 24 24" fill="#1E40AF">' +
+      '<path d="M1 1h2"/><path fill="#93c5fd" d="M2 2h2"/>' +
+      '<circle style="stroke: #1e40af; stroke-width: 2" r="4"/>' +
+      '<path fill="none" stroke="currentColor" d="M3 3h2"/></svg>';
+
+    const buildSpriteChildren = async (pluginOptions = {}) => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', verbose: false, ...pluginOptions });
+      plugin.configResolved({ root: testDir, command: 'build', mode: 'production' });
+      await plugin.buildStart();
+
+      const result = await plugin.transformIndexHtml.handler('<html></html>', { server: undefined, filename: 'index.html' });
+      return result.find(tag => tag.tag === 'svg').children;
+    };
+
+    it('должен заменять каждый цвет CSS переменной с исходным цветом (variables)', async () => {
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), DUOTONE_ICON);
+
+      const children = await buildSpriteChildren({ colors: 'variables' });
+
+      expect(children).toContain('<symbol id="home" viewBox="0 0 24 24" fill="var(--icon-color-1, #1E40AF)">');
+      expect(children).toContain('<path fill="var(--icon-color-2, #93c5fd)" d="M2 2h2"/>');
+      // Тот же цвет в другой записи получает ту же переменную, none и currentColor не переписываются
+      expect(children).toContain('style="stroke: var(--icon-color-1, #1e40af); stroke-width: 2"');
+      expect(children).toContain('<path fill="none" stroke="currentColor" d="M3 3h2"/>');
+    });
+
+    it('должен выбирать стратегию по ID иконки, затем по папке, затем по умолчанию', async () => {
+      await mkdir(resolve(testDir, 'src/icons/brand'), { recursive: true });
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), '<svg viewBox="0 0 24 24"><path fill="#1e40af" d="M1 1h2"/></svg>');
+      await writeFile(resolve(testDir, 'src/icons/brand/logo.svg'), '<svg viewBox="0 0 24 24"><path fill="#1e40af" d="M1 1h2"/><path fill="#93c5fd" d="M2 2h2"/></svg>');
+      await writeFile(resolve(testDir, 'src/icons/brand/flag.svg'), '<svg viewBox="0 0 24 24"><path fill="#1e40af" d="M1 1h2"/></svg>');
+
+      const children = await buildSpriteChildren({
+        svgoOptimize: true,
+        colors: { icons: { brand: 'preserve', flag: 'variables' } }
+      });
+
+      expect(children).toContain('<symbol id="home" viewBox="0 0 24 24"><path fill="currentColor" d="M1 1h2"/></symbol>');
+      expect(children).toContain('<symbol id="logo" viewBox="0 0 24 24"><path fill="#1e40af" d="M1 1h2"/><path fill="#93c5fd" d="M2 2h2"/></symbol>');
+      expect(children).toContain('<symbol id="flag" viewBox="0 0 24 24"><path fill="var(--icon-color-1, #1e40af)" d="M1 1h2"/></symbol>');
+    });
+
+    it('должен предупреждать о многоцветной иконке со стратегией mono', async () => {
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), DUOTONE_ICON);
+      await writeFile(resolve(testDir, 'src/icons/search.svg'), '<svg viewBox="0 0 24 24"><path fill="#F00" d="M1 1h2"/><path fill="#ff0000" d="M2 2h2"/></svg>');
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation();
+
+      await buildSpriteChildren({ svgoOptimize: true });
+      const warnings = warnSpy.mock.calls.map(call => call[0]);
+      warnSpy.mockClear();
+      await buildSpriteChildren({ svgoOptimize: true, currentColor: false });
+      const preserveWarnings = warnSpy.mock.calls.map(call => call[0]);
+      warnSpy.mockClear();
+      // Без SVGO цвета не сводятся: иконка остается цветной, предупреждать не о чем
+      const withoutSvgo = await buildSpriteChildren({ svgoOptimize: false });
+      const withoutSvgoWarnings = warnSpy.mock.calls.map(call => call[0]);
+      warnSpy.mockRestore();
+
+      // #F00 и #ff0000 - один цвет
+      expect(warnings).toEqual([
+        "⚠️  src/icons/home.svg has 2 colors (#1e40af, #93c5fd) but uses the 'mono' color strategy - set colors to 'preserve' or 'variables' for it"
+      ]);
+      expect(preserveWarnings).toEqual([]);
+      expect(withoutSvgoWarnings).toEqual([]);
+      expect(withoutSvgo).toContain('<symbol id="home" viewBox="0 0 24 24" fill="#1E40AF"><path d="M1 1h2"/><path fill="#93c5fd" d="M2 2h2"/>');
+      expect(() => svgSpritePlugin({ colors: { icons: { brand: 'duotone' } } })).toThrow(/colors\.icons\["brand"\] must be one of: mono, preserve, variables/);
+    });
+  });
+
+  describe('sanitize: санитайзер SVG', () => {
+    const UNSAFE_ICON = '<svg viewBox="0 0 24 24">' +
+      '<script>alert(1)</script>' +
+      '<path d="M1 1h2" onclick="alert(1)"/>' +
+      '<a href="java&#115;cript:alert(1)"><circle r="2"/></a>' +
+      '<style>.x { background: url(javascript:alert(1)) }</style>' +
+      '<animate attributeName="href" to="javascript:alert(1)"/>' +
+      '<image href="http://evil.test/x.png" width="4" height="4"/>' +
+      '<rect width="2" height="2" fill="url(#other)"/>' +
+      '</svg>';
+    const ANIMATED_ICON = '<svg viewBox="0 0 24 24">' +
+      '<style>.spin { transform-origin: center }</style>' +
+      '<circle class="spin" r="4"><animate attributeName="r" values="4;6;4" dur="1s"/></circle>' +
+      '<image href="data:image/png;base64,iVBORw0KGgo=" width="4" height="4"/>' +
+      '</svg>';
+
+    const buildSpriteChildren = async (pluginOptions = {}) => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', verbose: false, ...pluginOptions });
+      plugin.configResolved({ root: testDir, command: 'build', mode: 'production' });
+      await plugin.buildStart();
+
+      const result = await plugin.transformIndexHtml.handler('<html></html>', { server: undefined, filename: 'index.html' });
+      return result.find(tag => tag.tag === 'svg').children;
+    };
+
+    it('должен удалять опасные конструкции и сообщать о них с именем файла', async () => {
+      const consoleSpy = vi.spyOn(console, 'warn').mockImplementation();
+      await writeFile(resolve(testDir, 'src/icons/evil.svg'), UNSAFE_ICON);
+
+      const children = await buildSpriteChildren();
+      const warnings = consoleSpy.mock.calls.map(call => call[0]).join('\n');
+      consoleSpy.mockRestore();
+
+      expect(children).toContain(
+        '<symbol id="evil" viewBox="0 0 24 24"><path d="M1 1h2"/><a><circle r="2"/></a>' +
+        '<image width="4" height="4"/><rect width="2" height="2" fill="url(#other)"/></symbol>'
+      );
+      expect(children).not.toMatch(/script|alert|evil\.test|<style|<animate/);
+      expect(warnings).toContain('evil.svg: removed <script> (dangerous element)');
+      expect(warnings).toContain('evil.svg: removed <path onclick="alert(1)"> (event handler)');
+      expect(warnings).toContain('evil.svg: removed <a href="java&#115;cript:alert(1)"> (script URL)');
+      expect(warnings).toContain('evil.svg: removed <style> (unsafe CSS)');
+      expect(warnings).toContain('evil.svg: removed <animate> (animated link or event handler)');
+      expect(warnings).toContain('evil.svg: removed <image href="http://evil.test/x.png"> (external URL)');
+    });
+
+    it('должен оставлять <style>, анимации и <image> только на уровне standard', async () => {
+      await writeFile(resolve(testDir, 'src/icons/spinner.svg'), ANIMATED_ICON);
+
+      const standard = await buildSpriteChildren();
+      expect(standard).toContain('<style>.spin { transform-origin: center }</style>');
+      expect(standard).toContain('<animate attributeName="r" values="4;6;4" dur="1s"/>');
+      expect(standard).toContain('<image href="data:image/png;base64,iVBORw0KGgo=" width="4" height="4"/>');
+
+      const strict = await buildSpriteChildren({ sanitize: 'strict' });
+      expect(strict).toContain('<symbol id="spinner" viewBox="0 0 24 24"><circle class="spin" r="4"></circle></symbol>');
+
+      const custom = await buildSpriteChildren({ sanitize: { elements: ['circle'], attributes: ['r'] } });
+      expect(custom).toContain('<symbol id="spinner" viewBox="0 0 24 24"><circle r="4"></circle></symbol>');
+
+      const off = await buildSpriteChildren({ sanitize: 'off' });
+      expect(off).toContain(ANIMATED_ICON.slice(25, -6));
+    });
+
+    it('должен останавливать сборку при опасных иконках (failOnUnsafeIcons)', async () => {
+      vi.spyOn(console, 'warn').mockImplementation();
+      await writeFile(resolve(testDir, 'src/icons/evil.svg'), UNSAFE_ICON);
+      await writeFile(resolve(testDir, 'src/icons/spinner.svg'), ANIMATED_ICON);
+
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', verbose: false, failOnUnsafeIcons: true, sanitize: 'strict' });
+      plugin.configResolved({ root: testDir, command: 'build', mode: 'production' });
+      const error = vi.fn();
+      await plugin.buildStart.call({ emitFile: vi.fn(), error });
+      console.warn.mockRestore();
+
+      expect(error).toHaveBeenCalledTimes(1);
+      expect(error.mock.calls[0][0]).toContain('src/icons/evil.svg: <script> (dangerous element)');
+      expect(error.mock.calls[0][0]).not.toContain('spinner.svg');
+      expect(() => {
+        svgSpritePlugin({ sanitize: 'loose', failOnUnsafeIcons: 'yes' });
+      }).toThrow(/sanitize must be one of: strict, standard, off or a policy object[\s\S]*failOnUnsafeIcons must be a boolean/);
+    });
+  });
+
+  describe('persistentCache: кэш по содержимому файлов', () => {
+    const buildSpriteChildren = async (pluginOptions = {}) => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', verbose: false, ...pluginOptions });
+      plugin.configResolved({ root: testDir, command: 'build', mode: 'production', cacheDir: resolve(testDir, '.vite') });
+      await plugin.buildStart();
+
+      const result = await plugin.transformIndexHtml.handler('<html></html>', { server: undefined, filename: 'index.html' });
+      return result.find(tag => tag.tag === 'svg').children;
+    };
+
+    // Подменяет содержимое всех записей кэша, чтобы отличить чтение с диска от повторного разбора
+    const tamperCacheEntries = async () => {
+      const cacheDir = resolve(testDir, '.vite/svg-sprite');
+      const entries = await readdir(cacheDir);
+      for (const entry of entries) {
+        const parsed = JSON.parse(await readFile(resolve(cacheDir, entry), 'utf-8'));
+        await writeFile(resolve(cacheDir, entry), JSON.stringify({ ...parsed, content: '<path d="M0 0h1"/>' }));
+      }
+      return entries;
+    };
+
+    beforeEach(async () => {
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), '<svg viewBox="0 0 24 24"><path d="M1 1h2"/></svg>');
+    });
+
+    it('должен использовать записи из node_modules/.vite/svg-sprite между запусками', async () => {
+      await buildSpriteChildren();
+      const entries = await tamperCacheEntries();
+
+      // Свежий checkout меняет mtime, но не содержимое
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), '<svg viewBox="0 0 24 24"><path d="M1 1h2"/></svg>');
+      const children = await buildSpriteChildren();
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatch(/^[a-f0-9]{32}-[a-f0-9]{32}\.json$/);
+      expect(children).toContain('<symbol id="home" viewBox="0 0 24 24"><path d="M0 0h1"/></symbol>');
+    });
+
+    it('должен разбирать иконку заново при изменении содержимого или настроек', async () => {
+      await buildSpriteChildren();
+      await tamperCacheEntries();
+
+      const withOtherSettings = await buildSpriteChildren({ sanitize: 'strict' });
+      expect(withOtherSettings).toContain('<path d="M1 1h2"/>');
+
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), '<svg viewBox="0 0 24 24"><path d="M2 2h2"/></svg>');
+      const withOtherContent = await buildSpriteChildren();
+      expect(withOtherContent).toContain('<path d="M2 2h2"/>');
+    });
+
+    it('должен удалять после сборки записи, не использованные в ней', async () => {
+      await writeFile(resolve(testDir, 'src/icons/search.svg'), '<svg viewBox="0 0 24 24"><circle r="4"/></svg>');
+      await buildSpriteChildren();
+      await plugin.closeBundle();
+      const previous = await readdir(resolve(testDir, '.vite/svg-sprite'));
+      expect(previous).toHaveLength(2);
+
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), '<svg viewBox="0 0 24 24"><path d="M2 2h2"/></svg>');
+      await rm(resolve(testDir, 'src/icons/search.svg'));
+      await buildSpriteChildren();
+      await plugin.closeBundle();
+
+      // Остается только новая версия home: старая и удаленная search стираются
+      const entries = await readdir(resolve(testDir, '.vite/svg-sprite'));
+      expect(entries).toHaveLength(1);
+      expect(previous).not.toContain(entries[0]);
+    });
+
+    it('должен сохранять при очистке записи сборок с другими настройками (client и SSR)', async () => {
+      await buildSpriteChildren({ sanitize: 'strict' });
+      await plugin.closeBundle();
+      const ssrEntries = await readdir(resolve(testDir, '.vite/svg-sprite'));
+
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), '<svg viewBox="0 0 24 24"><path d="M2 2h2"/></svg>');
+      await buildSpriteChildren();
+      await plugin.closeBundle();
+
+      // Запись первой конфигурации не удалена, хотя вторая ее не использовала
+      const entries = await readdir(resolve(testDir, '.vite/svg-sprite'));
+      expect(ssrEntries).toHaveLength(1);
+      expect(entries).toHaveLength(2);
+      expect(entries).toContain(ssrEntries[0]);
+    });
+
+    it('должен отключаться опцией persistentCache: false', async () => {
+      await buildSpriteChildren({ persistentCache: false });
+
+      await expect(stat(resolve(testDir, '.vite/svg-sprite'))).rejects.toThrow();
+      expect(() => {
+        svgSpritePlugin({ persistentCache: 'yes' });
+      }).toThrow(/persistentCache must be a boolean/);
+    });
+  });
+
+  describe('workers: пул worker_threads для SVGO', () => {
+    const buildSpriteChildren = async (pluginOptions = {}) => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', svgoOptimize: true, persistentCache: false, ...pluginOptions });
+      plugin.configResolved({ root: testDir, command: 'build', mode: 'production' });
+      await plugin.buildStart();
+
+      const result = await plugin.transformIndexHtml.handler('<html></html>', { server: undefined, filename: 'index.html' });
+      await plugin.closeBundle();
+      return result.find(tag => tag.tag === 'svg').children;
+    };
+
+    beforeEach(async () => {
+      for (const name of ['home', 'search', 'user']) {
+        await writeFile(
+          resolve(testDir, `src/icons/${name}.svg`),
+          `<svg viewBox="0 0 24 24"><path fill="#ff0000" d="M1.000 ${name.length}h2"/><script>alert(1)</script></svg>`
+        );
+      }
+    });
+
+    it('должен разбирать иконки в worker с тем же результатом, что и в основном потоке', async () => {
+      const logSpy = vi.spyOn(console, 'log').mockImplementation();
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation();
+
+      const inProcess = await buildSpriteChildren({ verbose: false });
+      const inWorkers = await buildSpriteChildren({ verbose: true, workers: 2 });
+      const logs = logSpy.mock.calls.map(call => call[0]).join('\n');
+      const warnings = warnSpy.mock.calls.map(call => call[0]).join('\n');
+      logSpy.mockRestore();
+      warnSpy.mockRestore();
+
+      expect(inWorkers).toBe(inProcess);
+      expect(inWorkers).toContain('<symbol id="home" viewBox="0 0 24 24"><path fill="currentColor" d="M1 4h2"/></symbol>');
+      expect(logs).toContain('🧵 Processing SVG in up to 2 worker thread(s)');
+      expect(warnings).toContain('user.svg: removed <script> (dangerous element)');
+    });
+
+    it('должен разбирать иконки в основном потоке, если задачу нельзя передать в worker', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation();
+
+      // Функции в svgoConfig не клонируются в worker
+      const children = await buildSpriteChildren({
+        verbose: true,
+        workers: 1,
+        svgoConfig: { plugins: [{ name: 'uppercaseFill', fn: () => ({ element: { enter: (node) => { node.attributes.fill = 'RED'; } } }) }] }
+      });
+      const warnings = warnSpy.mock.calls.map(call => call[0]).join('\n');
+      warnSpy.mockRestore();
+
+      expect(children).toContain('<symbol id="home" viewBox="0 0 24 24"><path fill="RED" d="M1.000 4h2"/></symbol>');
+      expect(warnings).toContain('SVG workers unavailable');
+    });
+
+    it('должен выбрасывать ошибку при некорректном workers', () => {
+      expect(() => {
+        svgSpritePlugin({ workers: -1 });
+      }).toThrow(/workers must be a non-negative integer or 'auto'/);
+      expect(() => {
+        svgSpritePlugin({ workers: 'all' });
+      }).toThrow(/workers must be a non-negative integer or 'auto'/);
+      expect(() => {
+        svgSpritePlugin({ workers: 'auto' });
+      }).not.toThrow();
+    });
+  });
+
+  describe('output: внешний файл спрайта', () => {
+    const buildConfig = () => ({
+      root: testDir,
+      command: 'build',
+      mode: 'production',
+      base: '/',
+      build: { assetsDir: 'assets' }
+    });
+
+    beforeEach(async () => {
+      await writeFile(
+        resolve(testDir, 'src/icons/home.svg'),
+        '<svg viewBox="0 0 24 24"><path d="M10 20v-6h4v6h5v-8h3L12 3 2 12h3v8z"/></svg>'
+      );
+    });
+
+    it('должен выбрасывать ошибку при некорректном output', () => {
+      expect(() => {
+        svgSpritePlugin({ output: 'external' });
+      }).toThrow(/output must be one of: inline, file, both/);
+    });
+
+    it('должен эмитить sprite.[hash].svg в режиме file', async () => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', output: 'file' });
+      plugin.configResolved(buildConfig());
+
+      const emitFile = vi.fn();
+      await plugin.buildStart.call({ emitFile });
+
+      expect(emitFile).toHaveBeenCalledTimes(1);
+      const asset = emitFile.mock.calls[0][0];
+      expect(asset.type).toBe('asset');
+      expect(asset.fileName).toMatch(/^assets\/sprite\.[0-9a-f]{8}\.svg$/);
+      expect(asset.source).toContain('xmlns="http://www.w3.org/2000/svg"');
+      expect(asset.source).toContain('<symbol id="home"');
+      expect(asset.source).not.toContain('display: none');
+    });
+
+    it('имя файла должно зависеть от содержимого, а не от mtime', async () => {
+      const emitFile = vi.fn();
+
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', output: 'file' });
+      plugin.configResolved(buildConfig());
+      await plugin.buildStart.call({ emitFile });
+
+      // Тот же контент, но новый mtime
+      await writeFile(
+        resolve(testDir, 'src/icons/home.svg'),
+        '<svg viewBox="0 0 24 24"><path d="M10 20v-6h4v6h5v-8h3L12 3 2 12h3v8z"/></svg>'
+      );
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', output: 'file' });
+      plugin.configResolved(buildConfig());
+      await plugin.buildStart.call({ emitFile });
+
+      expect(emitFile.mock.calls[0][0].fileName).toBe(emitFile.mock.calls[1][0].fileName);
+    });
+
+    it('должен переписывать ссылки в HTML вместо инъекции спрайта', async () => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', output: 'file' });
+      plugin.configResolved(buildConfig());
+
+      const emitFile = vi.fn();
+      await plugin.buildStart.call({ emitFile });
+      const { fileName } = emitFile.mock.calls[0][0];
+
+      const html = '<svg><use href="#home"></use></svg><a href="#top">Top</a>';
+      const result = await plugin.transformIndexHtml.handler(html, { server: undefined, filename: 'index.html' });
+
+      expect(typeof result).toBe('string');
+      expect(result).toContain(`<use href="/${fileName}#home">`);
+      expect(result).toContain('<a href="#top">');
+    });
+
+    it('должен переписывать ссылки в JS модулях', async () => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', output: 'file' });
+      plugin.configResolved({ ...buildConfig(), base: '/app/' });
+
+      const emitFile = vi.fn();
+      await plugin.buildStart.call({ emitFile });
+      const { fileName } = emitFile.mock.calls[0][0];
+
+      const code = `export const icon = { href: '#home' };`;
+      const result = await plugin.transform(code, resolve(testDir, 'src/main.js'));
+
+      expect(result.code).toContain(`href: '/app/${fileName}#home'`);
+      expect(await plugin.transform(code, resolve(testDir, 'src/style.css'))).toBeNull();
+    });
+
+    it('в режиме both должен инлайнить спрайт и эмитить файл', async () => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', output: 'both' });
+      plugin.configResolved(buildConfig());
+
+      const emitFile = vi.fn();
+      await plugin.buildStart.call({ emitFile });
+
+      const result = await plugin.transformIndexHtml.handler('<html></html>', { server: undefined, filename: 'index.html' });
+      const spriteTag = result.find(tag => tag.tag === 'svg');
+
+      expect(emitFile).toHaveBeenCalledTimes(1);
+      expect(spriteTag.children).toContain('<symbol id="home"');
+    });
+  });
+
+  describe('virtual:svg-sprite модуль', () => {
+    beforeEach(async () => {
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), '<svg viewBox="0 0 24 24"><path d="M1 1h2"/></svg>');
+      await writeFile(resolve(testDir, 'src/icons/search.svg'), '<svg viewBox="0 0 24 24"><circle r="4"/></svg>');
+    });
+
+    it('должен разрешать только virtual:svg-sprite', () => {
+      plugin = svgSpritePlugin();
+      expect(plugin.resolveId('virtual:svg-sprite')).toBe('\0virtual:svg-sprite');
+      expect(plugin.resolveId('virtual:other')).toBeNull();
+      expect(plugin.load('/src/main.js')).toBeNull();
+    });
+
+    it('должен экспортировать ID иконок, spriteId и спрайт', async () => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', idPrefix: 'icon', spriteId: 'my-sprite' });
+      plugin.configResolved({ root: testDir, command: 'serve', mode: 'development' });
+      await plugin.buildStart();
+
+      const code = plugin.load('\0virtual:svg-sprite');
+
+      expect(code).toContain('export const iconIds = Object.freeze(["icon-home","icon-search"]);');
+      expect(code).toContain('export const spriteId = "my-sprite";');
+      expect(code).toContain('export const sprite = "<svg id=\\"my-sprite\\"');
+      expect(code).toContain('export const spriteUrl = "";');
+    });
+
+    it('должен экспортировать URL файла спрайта в режиме file', async () => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', output: 'file' });
+      plugin.configResolved({ root: testDir, command: 'build', mode: 'production' });
+
+      const emitFile = vi.fn();
+      await plugin.buildStart.call({ emitFile });
+
+      const code = plugin.load('\0virtual:svg-sprite');
+      expect(code).toContain(`export const spriteUrl = "/${emitFile.mock.calls[0][0].fileName}";`);
+    });
+
+    it('должен отдавать файл спрайта через middleware в dev режиме', async () => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', output: 'file', watch: false });
+      plugin.configResolved({ root: testDir, command: 'serve', mode: 'development' });
+
+      const middlewares = { use: vi.fn() };
+      plugin.configureServer({ middlewares });
+      await plugin.buildStart();
+
+      const middleware = middlewares.use.mock.calls[0][0];
+      const res = { setHeader: vi.fn(), end: vi.fn() };
+      const next = vi.fn();
+
+      await middleware({ url: '/@svg-sprite/sprite.svg?t=1' }, res, next);
+      expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'image/svg+xml');
+      expect(res.end.mock.calls[0][0]).toContain('<symbol id="home"');
+
+      await middleware({ url: '/src/main.js' }, res, next);
+      expect(next).toHaveBeenCalled();
+
+      expect(plugin.load('\0virtual:svg-sprite')).toContain('export const spriteUrl = "/@svg-sprite/sprite.svg";');
+    });
+
+    it('должен инвалидировать модуль через module graph при изменении иконок', async () => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', watch: true, debounceDelay: 10 });
+      plugin.configResolved({ root: testDir, command: 'serve', mode: 'development' });
+      await plugin.buildStart();
+
+      const virtualModule = { id: '\0virtual:svg-sprite' };
+      const mockServer = {
+        watcher: { add: vi.fn(), on: vi.fn() },
+        ws: { send: vi.fn() },
+        httpServer: { on: vi.fn() },
+        moduleGraph: { getModuleById: vi.fn(() => virtualModule) },
+        reloadModule: vi.fn()
+      };
+      plugin.configureServer(mockServer);
+
+      await writeFile(resolve(testDir, 'src/icons/user.svg'), '<svg viewBox="0 0 24 24"><rect width="4"/></svg>');
+      const onAdd = mockServer.watcher.on.mock.calls.find(([event]) => event === 'add')[1];
+      onAdd(resolve(testDir, 'src/icons/user.svg'));
+
+      await vi.waitFor(() => {
+        expect(mockServer.reloadModule).toHaveBeenCalledWith(virtualModule);
+      });
+
+      expect(plugin.load('\0virtual:svg-sprite')).toContain('["home","search","user"]');
+    });
+  });
+
+  describe('HMR: гранулярные обновления спрайта', () => {
+    const startDevServer = async (pluginOptions = {}) => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', debounceDelay: 10, ...pluginOptions });
+      plugin.configResolved({ root: testDir, command: 'serve', mode: 'development' });
+      await plugin.buildStart();
+
+      const mockServer = {
+        watcher: { add: vi.fn(), on: vi.fn() },
+        ws: { send: vi.fn() },
+        httpServer: { on: vi.fn() }
+      };
+      plugin.configureServer(mockServer);
+
+      // Имитирует событие watcher и возвращает payload svg-sprite-update
+      return async (event, fileName) => {
+        mockServer.ws.send.mockClear();
+        const handler = mockServer.watcher.on.mock.calls.find(([name]) => name === event)[1];
+        handler(resolve(testDir, 'src/icons', fileName));
+
+        await vi.waitFor(() => {
+          expect(mockServer.ws.send).toHaveBeenCalled();
+        });
+        return mockServer.ws.send.mock.calls[0][0].data;
+      };
+    };
+
+    beforeEach(async () => {
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), '<svg viewBox="0 0 24 24"><path d="M1 1h2"/></svg>');
+      await writeFile(resolve(testDir, 'src/icons/search.svg'), '<svg viewBox="0 0 24 24"><circle r="4"/></svg>');
+    });
+
+    it('должен отправлять только символ измененной иконки', async () => {
+      const emit = await startDevServer();
+
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), '<svg viewBox="0 0 24 24"><path d="M2 2h2"/></svg>');
+      const data = await emit('change', 'home.svg');
+
+      expect(data.spriteContent).toBeUndefined();
+      expect(data.added).toEqual([]);
+      expect(data.removed).toEqual([]);
+      expect(data.changed).toEqual([{ id: 'home', symbol: '<symbol id="home" viewBox="0 0 24 24"><path d="M2 2h2"/></symbol>' }]);
+      expect(data.iconCount).toBe(2);
+    });
+
+    it('должен сообщать о добавленных и удаленных иконках', async () => {
+      const emit = await startDevServer();
+
+      await writeFile(resolve(testDir, 'src/icons/user.svg'), '<svg viewBox="0 0 24 24"><rect width="4"/></svg>');
+      const added = await emit('add', 'user.svg');
+      expect(added.added).toEqual([{ id: 'user', symbol: '<symbol id="user" viewBox="0 0 24 24"><rect width="4"/></symbol>' }]);
+
+      await rm(resolve(testDir, 'src/icons/search.svg'));
+      const removed = await emit('unlink', 'search.svg');
+      expect(removed.removed).toEqual(['search']);
+      expect(removed.added).toEqual([]);
+      expect(removed.iconCount).toBe(2);
+    });
+
+    it('должен отправлять весь спрайт при hoistDefs', async () => {
+      const emit = await startDevServer({ hoistDefs: true });
+
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), '<svg viewBox="0 0 24 24"><path d="M2 2h2"/></svg>');
+      const data = await emit('change', 'home.svg');
+
+      expect(data.changed).toBeUndefined();
+      expect(data.spriteContent).toContain('<symbol id="home" viewBox="0 0 24 24"><path d="M2 2h2"/></symbol>');
+      expect(data.spriteContent).toContain('<symbol id="search"');
+    });
+  });
+
+  describe('unknownIcons: ссылки на несуществующие иконки в dev', () => {
+    const startDevServer = async (pluginOptions = {}) => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', debounceDelay: 10, ...pluginOptions });
+      plugin.configResolved({ root: testDir, command: 'serve', mode: 'development' });
+      await plugin.buildStart();
+
+      const mockServer = {
+        watcher: { add: vi.fn(), on: vi.fn() },
+        ws: { send: vi.fn() },
+        httpServer: { on: vi.fn() }
+      };
+      plugin.configureServer(mockServer);
+      return mockServer;
+    };
+
+    let warnSpy;
+
+    beforeEach(async () => {
+      warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      await writeFile(resolve(testDir, 'src/icons/search.svg'), '<svg viewBox="0 0 24 24"><circle r="4"/></svg>');
+    });
+
+    afterEach(() => {
+      warnSpy.mockRestore();
+    });
+
+    it('должен предупреждать с файлом, строкой и подсказкой', async () => {
+      await startDevServer();
+      const id = resolve(testDir, 'src/main.js');
+
+      await plugin.transform(`const a = 1;\nexport const icon = h('use', { href: '#serch' });`, id);
+      await plugin.transform(`const a = 1;\nexport const icon = h('use', { href: '#serch' });`, id);
+
+      expect(warnSpy).toHaveBeenCalledTimes(1);
+      expect(warnSpy.mock.calls[0][0]).toBe('⚠️  Unknown icon "serch" at src/main.js:2 - did you mean "search"?');
+    });
+
+    it('должен перепроверять ссылки после добавления иконки', async () => {
+      // Сообщение о разрешенной ссылке выводится только в verbose режиме
+      const mockServer = await startDevServer({ verbose: true });
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await plugin.transform(`export const icon = <svg><use href="#user" /></svg>;`, resolve(testDir, 'src/main.jsx'));
+      expect(warnSpy.mock.calls[0][0]).toBe('⚠️  Unknown icon "user" at src/main.jsx:1');
+
+      await writeFile(resolve(testDir, 'src/icons/user.svg'), '<svg viewBox="0 0 24 24"><rect width="4"/></svg>');
+      const handler = mockServer.watcher.on.mock.calls.find(([name]) => name === 'add')[1];
+      handler(resolve(testDir, 'src/icons/user.svg'));
+
+      await vi.waitFor(() => {
+        expect(logSpy).toHaveBeenCalledWith('✅ Icon reference "user" in src/main.jsx resolved');
+      });
+      logSpy.mockRestore();
+    });
+
+    it('должен показывать error overlay и отключаться через off', async () => {
+      const mockServer = await startDevServer({ unknownIcons: 'overlay' });
+      const id = resolve(testDir, 'src/main.js');
+
+      await plugin.transform(`export const icon = createElement('use', { xlinkHref: '#serch' });`, id);
+      expect(mockServer.ws.send).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'error',
+        err: expect.objectContaining({ id, loc: { file: id, line: 1, column: 0 } })
+      }));
+
+      warnSpy.mockClear();
+      await startDevServer({ unknownIcons: 'off' });
+      await plugin.transform(`export const icon = createElement('use', { xlinkHref: '#serch' });`, id);
+      expect(warnSpy).not.toHaveBeenCalled();
+
+      expect(() => svgSpritePlugin({ unknownIcons: 'error' })).toThrow('unknownIcons must be one of: warn, overlay, off');
+    });
+
+    it('не должен считать ссылками на иконки якоря страницы в JS', async () => {
+      await startDevServer();
+
+      await plugin.transform(
+        `export const nav = [{ href: '#pricing' }];\nlocation.href = "#faq";\nexport const link = <a href="#top">Top</a>;`,
+        resolve(testDir, 'src/nav.jsx')
+      );
+
+      expect(warnSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('virtual:svg-sprite/client: HMR клиент', () => {
+    // Загружает код клиента как ES модуль с подменой import.meta.hot
+    const importClient = async (code, hot) => {
+      const clientPath = resolve(testDir, `client-${Date.now()}.mjs`);
+      globalThis.__svgSpriteTestHot = hot;
+      await writeFile(clientPath, code.replace(/import\.meta\.hot/g, 'globalThis.__svgSpriteTestHot'));
+      return import(clientPath);
+    };
+
+    afterEach(() => {
+      delete globalThis.__svgSpriteTestHot;
+    });
+
+    it('должен разрешать и загружать модуль клиента', () => {
+      plugin = svgSpritePlugin({ spriteId: 'custom-sprite' });
+
+      expect(plugin.resolveId('virtual:svg-sprite/client')).toBe('\0virtual:svg-sprite/client');
+
+      const code = plugin.load('\0virtual:svg-sprite/client');
+      expect(code).toContain('export function onSpriteUpdate(callback)');
+      expect(code).toContain("import.meta.hot.on('svg-sprite-update'");
+      // ID спрайта берется из события, а не из опций
+      expect(code).not.toContain('custom-sprite');
+    });
+
+    it('должен вызывать подписчиков onSpriteUpdate до отписки', async () => {
+      plugin = svgSpritePlugin();
+      const handlers = new Map();
+      const hot = { on: vi.fn((event, handler) => handlers.set(event, handler)) };
+      const logSpy = vi.spyOn(console, 'log').mockImplementation();
+
+      const client = await importClient(plugin.load('\0virtual:svg-sprite/client'), hot);
+      const callback = vi.fn();
+      const unsubscribe = client.onSpriteUpdate(callback);
+
+      // Спрайта нет в DOM (SSR, Storybook) - подписчики все равно уведомляются
+      const data = { name: 'sprite', spriteId: 'sprite-id', added: [], changed: [], removed: ['home'], iconCount: 1 };
+      handlers.get('svg-sprite-update')(data);
+      unsubscribe();
+      handlers.get('svg-sprite-update')(data);
+      logSpy.mockRestore();
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith(data);
+    });
+
+    it('не должен подключать клиент в build', async () => {
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), '<svg viewBox="0 0 24 24"><path d="M1 1h2"/></svg>');
+
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons' });
+      plugin.configResolved({ root: testDir, command: 'build', mode: 'production' });
+      await plugin.buildStart();
+      const result = await plugin.transformIndexHtml.handler('<html></html>', { server: undefined, filename: 'index.html' });
+
+      expect(result.find(tag => tag.tag === 'script')).toBeUndefined();
+    });
+  });
+
+  describe('virtual:svg-sprite/ssr: серверный рендеринг спрайта', () => {
+    // Загружает код модуля как ES модуль (как его выполнит сервер)
+    const importSsr = async () => {
+      const modulePath = resolve(testDir, `ssr-${Date.now()}.mjs`);
+      await writeFile(modulePath, await plugin.load(plugin.resolveId('virtual:svg-sprite/ssr')));
+      return import(modulePath);
+    };
+
+    beforeEach(async () => {
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), '<svg viewBox="0 0 24 24"><path d="M1 1h2"/></svg>');
+      await writeFile(resolve(testDir, 'src/icons/search.svg'), '<svg viewBox="0 0 24 24"><circle r="4"/></svg>');
+    });
+
+    it('должен рендерить ту же разметку, что инжектится в index.html', async () => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', spriteId: 'app-sprite' });
+      plugin.configResolved({ root: testDir, command: 'serve', mode: 'development' });
+      await plugin.buildStart();
+
+      const [tag] = await plugin.transformIndexHtml.handler('<html></html>', { server: {}, filename: 'index.html' });
+      const attrs = Object.entries(tag.attrs).map(([name, value]) => ` ${name}="${value}"`).join('');
+      const { renderSprite } = await importSsr();
+
+      expect(renderSprite()).toBe(`<svg${attrs}>${tag.children}</svg>`);
+    });
+
+    it('должен фильтровать иконки и спрайты при рендере', async () => {
+      await mkdir(resolve(testDir, 'src/logos'), { recursive: true });
+      await writeFile(resolve(testDir, 'src/logos/acme.svg'), '<svg viewBox="0 0 48 24"><rect width="48"/></svg>');
+      plugin = svgSpritePlugin({
+        sprites: [
+          { name: 'ui', iconsFolder: 'src/icons' },
+          { name: 'logos', iconsFolder: 'src/logos', idPrefix: 'logo', spriteId: 'logos-sprite' }
+        ]
+      });
+      plugin.configResolved({ root: testDir, command: 'serve', mode: 'development' });
+      await plugin.buildStart();
+      const { renderSprite } = await importSsr();
+
+      const ui = renderSprite({ icons: ['search'] });
+      expect(ui).toContain('<symbol id="search"');
+      expect(ui).not.toContain('<symbol id="home"');
+      // Спрайт без использованных иконок не рендерится
+      expect(ui).not.toContain('logos-sprite');
+
+      expect(renderSprite({ name: 'logos' })).toMatch(/^<svg id="logos-sprite"[^>]*><symbol id="logo-acme"[^>]*>.*<\/symbol><\/svg>$/);
+    });
+
+    it('должен включать все иконки при tree-shaking и общий <defs>', async () => {
+      await writeFile(resolve(testDir, 'src/icons/home.svg'),
+        '<svg viewBox="0 0 24 24"><defs><linearGradient id="g"><stop offset="0"/></linearGradient></defs><path fill="url(#g)" d="M1 1h2"/></svg>');
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', treeShaking: true, hoistDefs: true, scopeIds: false });
+      plugin.configResolved({ root: testDir, command: 'build', mode: 'production' });
+      await plugin.buildStart.call({ emitFile: vi.fn() });
+
+      const code = await plugin.load('\0virtual:svg-sprite/ssr');
+      expect(code).not.toContain('__VITE_SVG_SPRITE_');
+
+      const { renderSprite } = await importSsr();
+      const html = renderSprite({ icons: ['search'] });
+      expect(html).toContain('style="position: absolute; width: 0; height: 0; overflow: hidden;"');
+      expect(html).toContain('<defs><linearGradient id="g">');
+      expect(html).toContain('<symbol id="search"');
+      expect(html).not.toContain('<symbol id="home"');
+    });
+  });
+
+  describe('virtual:svg-sprite/shadow: спрайт в shadow DOM', () => {
+    // Минимальный DOM: элементы с детьми и <template>, разбирающий <svg>, <defs> и <symbol>
+    class FakeElement {
+      constructor(tagName, id = '') {
+        this.tagName = tagName;
+        this.id = id;
+        this.children = [];
+        this.parent = null;
+        this.attributes = new Map();
+      }
+      cloneNode(deep) {
+        const clone = new FakeElement(this.tagName, this.id);
+        if (deep) {
+          this.children.forEach(child => clone.appendChild(child.cloneNode(true)));
+        }
+        return clone;
+      }
+      appendChild(child) {
+        child.parent = this;
+        this.children.push(child);
+      }
+      prepend(child) {
+        child.parent = this;
+        this.children.unshift(child);
+      }
+      remove() {
+        this.parent.children.splice(this.parent.children.indexOf(this), 1);
+        this.parent = null;
+      }
+      replaceWith(node) {
+        node.parent = this.parent;
+        this.parent.children.splice(this.parent.children.indexOf(this), 1, node);
+        this.parent = null;
+      }
+      querySelectorAll(selector) {
+        return this.children.flatMap(child =>
+          (child.tagName === selector ? [child] : []).concat(child.querySelectorAll(selector))
+        );
+      }
+      hasAttribute(name) {
+        return this.attributes.has(name);
+      }
+      getAttribute(name) {
+        return this.attributes.get(name) ?? null;
+      }
+      setAttribute(name, value) {
+        this.attributes.set(name, value);
+      }
+      removeAttribute(name) {
+        this.attributes.delete(name);
+      }
+    }
+
+    const parseSprite = (markup) => {
+      const sprite = new FakeElement('svg', markup.match(/<svg[^>]*\sid="([^"]+)"/)[1]);
+      for (const [, tagName, id = ''] of markup.matchAll(/<(defs|symbol)(?:\s+id="([^"]+)")?/g)) {
+        sprite.appendChild(new FakeElement(tagName, id));
+      }
+      return sprite;
+    };
+
+    // Загружает код модуля как ES модуль с подменой import.meta.hot
+    const importShadow = async (hot) => {
+      const modulePath = resolve(testDir, `shadow-${Date.now()}-${Math.random()}.mjs`);
+      globalThis.__svgSpriteTestHot = hot;
+      await writeFile(modulePath, plugin.load('\0virtual:svg-sprite/shadow').replace(/import\.meta\.hot/g, 'globalThis.__svgSpriteTestHot'));
+      return import(modulePath);
+    };
+
+    const buildPlugin = async () => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', hoistDefs: true, verbose: false });
+      plugin.configResolved({ root: testDir, command: 'serve', mode: 'development' });
+      await plugin.buildStart();
+    };
+
+    beforeEach(async () => {
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), '<svg viewBox="0 0 24 24"><path d="M1 1h2"/></svg>');
+      await writeFile(resolve(testDir, 'src/icons/star.svg'), '<svg viewBox="0 0 24 24"><defs><linearGradient id="a"/></defs><path fill="url(#a)" d="M1 1h2"/></svg>');
+
+      vi.stubGlobal('document', {
+        createElement: () => {
+          const template = { content: null };
+          Object.defineProperty(template, 'innerHTML', {
+            set: (markup) => {
+              template.content = { firstElementChild: parseSprite(markup) };
+            }
+          });
+          return template;
+        }
+      });
+      vi.stubGlobal('requestAnimationFrame', callback => callback());
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      delete globalThis.__svgSpriteTestHot;
+    });
+
+    it('должен разрешать и загружать модуль shadow со спрайтом', async () => {
+      await buildPlugin();
+
+      expect(plugin.resolveId('virtual:svg-sprite/shadow')).toBe('\0virtual:svg-sprite/shadow');
+
+      const code = plugin.load('\0virtual:svg-sprite/shadow');
+      expect(code).toContain('export function adoptSprite(root, options = {})');
+      expect(code).toContain('<symbol id=\\"home\\"');
+      // Модуль принимает свое обновление: virtual:svg-sprite нельзя принять как зависимость
+      expect(code).toContain('import.meta.hot.accept();');
+      expect(code).not.toContain("from 'virtual:svg-sprite'");
+    });
+
+    it('должен добавлять в root только запрошенные символы и удалять спрайт', async () => {
+      await buildPlugin();
+      const { adoptSprite } = await importShadow(undefined);
+      const root = new FakeElement('#shadow-root');
+      root.appendChild(new FakeElement('div'));
+
+      const release = adoptSprite(root, { icons: ['star'] });
+      const sprite = root.children[0];
+
+      // <defs> сохраняется: символы могут ссылаться на общие градиенты
+      expect(sprite.tagName).toBe('svg');
+      expect(sprite.children.map(child => child.id || child.tagName)).toEqual(['defs', 'star']);
+      expect(() => adoptSprite(root, { name: 'missing' })).toThrow('Unknown sprite "missing"');
+
+      release();
+      expect(root.children.map(child => child.tagName)).toEqual(['div']);
+    });
+
+    it('должен обновлять спрайт в roots новой версией модуля при HMR', async () => {
+      await buildPlugin();
+      const hot = { data: {}, accept: vi.fn() };
+      const { adoptSprite } = await importShadow(hot);
+      const root = new FakeElement('#shadow-root');
+      const use = new FakeElement('use');
+      use.setAttribute('href', '#home');
+      root.appendChild(use);
+      adoptSprite(root);
+
+      // Иконки изменились: Vite выполняет новую версию модуля с тем же hot.data
+      await rm(resolve(testDir, 'src/icons/star.svg'));
+      await writeFile(resolve(testDir, 'src/icons/menu.svg'), '<svg viewBox="0 0 24 24"><path d="M2 2h2"/></svg>');
+      await plugin.buildStart();
+      const setAttributeSpy = vi.spyOn(use, 'setAttribute');
+      await importShadow(hot);
+
+      expect(hot.accept).toHaveBeenCalledTimes(2);
+      expect(root.children).toHaveLength(2);
+      expect(root.children[0].children.map(child => child.id)).toEqual(['home', 'menu']);
+      // <use> перерисовывается, чтобы браузер подхватил новые символы
+      expect(setAttributeSpy).toHaveBeenCalledWith('href', '#home');
+    });
+  });
+
+  describe('Icon компоненты: virtual:svg-sprite/react | vue | svelte', () => {
+    // Загружает код компонента с заглушками фреймворка и virtual:svg-sprite
+    const importComponent = async (code, sprites = {}) => {
+      const modulePath = resolve(testDir, `icon-${Date.now()}.mjs`);
+      globalThis.__svgSpriteTestSprites = sprites;
+      await writeFile(modulePath, code
+        .replace(`import { createElement } from 'react';`, 'const createElement = (type, props, ...children) => ({ type, props, children });')
+        .replace(`import { sprites } from 'virtual:svg-sprite';`, 'const sprites = globalThis.__svgSpriteTestSprites;'));
+      return import(modulePath);
+    };
+
+    afterEach(() => {
+      delete globalThis.__svgSpriteTestSprites;
+    });
+
+    it('должен рендерить React Icon с размером и атрибутами доступности', async () => {
+      plugin = svgSpritePlugin();
+      expect(plugin.resolveId('virtual:svg-sprite/react')).toBe('\0virtual:svg-sprite/react');
+
+      const { Icon } = await importComponent(plugin.load('\0virtual:svg-sprite/react'));
+
+      const decorative = Icon({ name: 'home', className: 'nav' });
+      expect(decorative.props).toEqual({ width: '1em', height: '1em', 'aria-hidden': 'true', focusable: 'false', className: 'nav' });
+      expect(decorative.children[1]).toEqual({ type: 'use', props: { href: '#home' }, children: [] });
+
+      const labelled = Icon({ name: 'home', size: 24, title: 'Home' });
+      expect(labelled.props).toEqual({ width: 24, height: 24, role: 'img' });
+      expect(labelled.children[0]).toEqual({ type: 'title', props: null, children: ['Home'] });
+    });
+
+    it('должен ссылаться на внешний файл спрайта при output: file', async () => {
+      plugin = svgSpritePlugin({ output: 'file' });
+      const sprites = {
+        ui: { iconIds: ['home'], spriteUrl: '/assets/ui.svg' },
+        logos: { iconIds: ['logo-acme'], spriteUrl: '/assets/logos.svg' }
+      };
+
+      const { Icon } = await importComponent(plugin.load('\0virtual:svg-sprite/react'), sprites);
+      expect(Icon({ name: 'logo-acme' }).children[1].props.href).toBe('/assets/logos.svg#logo-acme');
+
+      // Vue компонент и Svelte компонент (компилируется vite-plugin-svelte) используют тот же код
+      expect(plugin.load('\0virtual:svg-sprite/vue')).toContain(`h('use', { href: getIconHref(props.name) })`);
+      expect(plugin.load('\0virtual:svg-sprite/svelte')).toContain(`from 'virtual:svg-sprite/svelte/Icon.svelte'`);
+      expect(plugin.resolveId('virtual:svg-sprite/svelte/Icon.svelte')).toBe('virtual:svg-sprite/svelte/Icon.svelte');
+      expect(plugin.load('virtual:svg-sprite/svelte/Icon.svelte')).toContain('<use href={getIconHref(name)} />');
+    });
+  });
+
+  describe('?symbol: импорт отдельной иконки', () => {
+    // Загружает модуль иконки с заглушкой React
+    const importSymbol = async (code) => {
+      const modulePath = resolve(testDir, `symbol-${Date.now()}.mjs`);
+      await writeFile(modulePath, code.replace(
+        `import { createElement } from 'react';`,
+        'const createElement = (type, props) => ({ type, props });'
+      ));
+      return import(modulePath);
+    };
+
+    beforeEach(async () => {
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), '<svg viewBox="0 0 24 24" stroke-width="2"><path d="M1 1h2"/></svg>');
+      await writeFile(resolve(testDir, 'src/icons/search.svg'), '<svg viewBox="0 0 24 24"><circle r="4"/></svg>');
+    });
+
+    it('должен экспортировать дескриптор и самостоятельный SVG', async () => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', idPrefix: 'i' });
+      plugin.configResolved({ root: testDir, command: 'serve', mode: 'development' });
+      await plugin.buildStart();
+      const iconPath = resolve(testDir, 'src/icons/home.svg');
+
+      const icon = await importSymbol(await plugin.load(`${iconPath}?symbol`));
+      expect(icon.default).toEqual({ id: 'i-home', viewBox: '0 0 24 24', url: '#i-home' });
+      expect(icon.svg).toBe('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" stroke-width="2"><path d="M1 1h2"/></svg>');
+
+      // Query из dev сервера (?import&symbol=svg)
+      const markup = await importSymbol(await plugin.load(`${iconPath}?import&symbol=svg`));
+      expect(markup.default).toBe(icon.svg);
+      expect(await plugin.load(`${iconPath}?raw`)).toBeNull();
+    });
+
+    it('должен рендерить иконку React компонентом без спрайта', async () => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons' });
+      plugin.configResolved({ root: testDir, command: 'serve', mode: 'development' });
+      await plugin.buildStart();
+
+      const { default: HomeIcon } = await importSymbol(await plugin.load(`${resolve(testDir, 'src/icons/home.svg')}?symbol=react`));
+      const { props } = HomeIcon({ size: 16, title: 'A < B', className: 'icon' });
+
+      expect(props).toMatchObject({ viewBox: '0 0 24 24', strokeWidth: '2', width: 16, height: 16, role: 'img', className: 'icon' });
+      expect(props.dangerouslySetInnerHTML.__html).toBe('<title>A &lt; B</title><path d="M1 1h2"/>');
+      expect(HomeIcon({}).props['aria-hidden']).toBe('true');
+
+      const error = vi.fn((message) => { throw new Error(message); });
+      await expect(plugin.load.call({ error }, `${resolve(testDir, 'src/icons/home.svg')}?symbol=svelte`)).rejects.toThrow('Unknown ?symbol format "svelte"');
+      await expect(plugin.load.call({ error }, `${resolve(testDir, 'src/logo.svg')}?symbol`)).rejects.toThrow('src/logo.svg is not in an icons folder');
+    });
+
+    it('должен учитывать импорт иконки при tree-shaking', async () => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', treeShaking: true });
+      plugin.configResolved({ root: testDir, command: 'build', mode: 'production', base: '/', build: { assetsDir: 'assets' } });
+      const emitFile = vi.fn();
+      await plugin.buildStart.call({ emitFile });
+
+      const symbolId = `${resolve(testDir, 'src/icons/search.svg')}?symbol`;
+      await plugin.load(symbolId);
+      const chunk = {
+        type: 'chunk',
+        fileName: 'assets/index.js',
+        modules: { [symbolId]: { renderedLength: 1 } },
+        code: plugin.load('\0virtual:svg-sprite')
+      };
+      await renderBundle({ emitFile }, { [chunk.fileName]: chunk });
+
+      expect(chunk.code).toContain('export const iconIds = Object.freeze(["search"]);');
+    });
+  });
+
+  describe('dts: генерация типа IconName', () => {
+    beforeEach(async () => {
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), '<svg viewBox="0 0 24 24"><path d="M1 1h2"/></svg>');
+      await writeFile(resolve(testDir, 'src/icons/search.svg'), '<svg viewBox="0 0 24 24"><circle r="4"/></svg>');
+    });
+
+    it('должен выбрасывать ошибку если dts не указывает на .ts файл', () => {
+      expect(() => {
+        svgSpritePlugin({ dts: 'src/types/icons.json' });
+      }).toThrow(/dts must be a path to a \.d\.ts file/);
+    });
+
+    it('должен блокировать dts путь за пределами проекта', () => {
+      plugin = svgSpritePlugin({ dts: '../icons.d.ts' });
+      expect(() => {
+        plugin.configResolved({ root: testDir, command: 'build', mode: 'production' });
+      }).toThrow(/Invalid dts path/);
+    });
+
+    it('должен записывать union тип с учетом idPrefix', async () => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', idPrefix: 'icon', dts: 'src/types/icons.d.ts' });
+      plugin.configResolved({ root: testDir, command: 'build', mode: 'production' });
+      await plugin.buildStart();
+
+      const dts = await readFile(resolve(testDir, 'src/types/icons.d.ts'), 'utf-8');
+      expect(dts).toContain("export type IconName =\n  | 'icon-home'\n  | 'icon-search';");
+    });
+
+    it('не должен перезаписывать файл если набор иконок не изменился', async () => {
+      const dtsPath = resolve(testDir, 'src/types/icons.d.ts');
+
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', dts: 'src/types/icons.d.ts' });
+      plugin.configResolved({ root: testDir, command: 'build', mode: 'production' });
+      await plugin.buildStart();
+      const { mtimeMs } = await stat(dtsPath);
+
+      await new Promise(resolveDelay => setTimeout(resolveDelay, 20));
+      await plugin.buildStart();
+
+      expect((await stat(dtsPath)).mtimeMs).toBe(mtimeMs);
+    });
+
+    it('должен включать все иконки даже при tree-shaking', async () => {
+      await writeFile(resolve(testDir, 'index.html'), '<svg><use href="#home"></use></svg>');
+
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', treeShaking: true, dts: 'src/types/icons.d.ts' });
+      plugin.configResolved({ root: testDir, command: 'build', mode: 'production' });
+      await plugin.buildStart();
+
+      const dts = await readFile(resolve(testDir, 'src/types/icons.d.ts'), 'utf-8');
+      expect(dts).toContain("'search'");
+    });
+
+    it('должен обновлять типы при изменении иконок в dev режиме', async () => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', dts: 'src/types/icons.d.ts', debounceDelay: 10 });
+      plugin.configResolved({ root: testDir, command: 'serve', mode: 'development' });
+      await plugin.buildStart();
+
+      const mockServer = {
+        watcher: { add: vi.fn(), on: vi.fn() },
+        ws: { send: vi.fn() },
+        httpServer: { on: vi.fn() }
+      };
+      plugin.configureServer(mockServer);
+
+      await writeFile(resolve(testDir, 'src/icons/user.svg'), '<svg viewBox="0 0 24 24"><rect width="4"/></svg>');
+      const onAdd = mockServer.watcher.on.mock.calls.find(([event]) => event === 'add')[1];
+      onAdd(resolve(testDir, 'src/icons/user.svg'));
+
+      await vi.waitFor(async () => {
+        const dts = await readFile(resolve(testDir, 'src/types/icons.d.ts'), 'utf-8');
+        expect(dts).toContain("| 'user';");
+      });
+    });
+  });
+
+  describe('sprites: несколько спрайтов', () => {
+    beforeEach(async () => {
+      await mkdir(resolve(testDir, 'src/logos'), { recursive: true });
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), '<svg viewBox="0 0 24 24"><path d="M1 1h2"/></svg>');
+      await writeFile(resolve(testDir, 'src/logos/acme.svg'), '<svg viewBox="0 0 48 24"><rect width="48"/></svg>');
+    });
+
+    const sprites = [
+      { name: 'ui', iconsFolder: 'src/icons' },
+      { name: 'logos', iconsFolder: 'src/logos', idPrefix: 'logo', spriteId: 'logos-sprite' }
+    ];
+
+    it('должен выбрасывать ошибку при повторяющихся именах и пустом iconsFolder', () => {
+      expect(() => {
+        svgSpritePlugin({ sprites: [{ name: 'ui', iconsFolder: 'src/icons' }, { name: 'ui', iconsFolder: '' }] });
+      }).toThrow(/sprites\[1\]\.name "ui" is used by another sprite[\s\S]*sprites\[1\]\.iconsFolder must be a non-empty string/);
+    });
+
+    it('должен блокировать path traversal в папке спрайта', () => {
+      plugin = svgSpritePlugin({ sprites: [{ name: 'logos', iconsFolder: '../logos' }] });
+      expect(() => {
+        plugin.configResolved({ root: testDir, command: 'build', mode: 'production' });
+      }).toThrow(/Invalid sprites\.logos\.iconsFolder path/);
+    });
+
+    it('должен инжектировать каждый спрайт отдельным элементом', async () => {
+      plugin = svgSpritePlugin({ sprites, spriteId: 'app' });
+      plugin.configResolved({ root: testDir, command: 'build', mode: 'production' });
+      await plugin.buildStart();
+
+      const result = await plugin.transformIndexHtml.handler('<html></html>', { server: undefined, filename: 'index.html' });
+      const spriteTags = result.filter(tag => tag.tag === 'svg');
+
+      expect(spriteTags.map(tag => tag.attrs.id)).toEqual(['app-ui', 'logos-sprite']);
+      expect(spriteTags[0].children).toContain('<symbol id="home"');
+      expect(spriteTags[0].children).not.toContain('logo-acme');
+      expect(spriteTags[1].children).toContain('<symbol id="logo-acme" viewBox="0 0 48 24"');
+    });
+
+    it('должен эмитить файл для каждого спрайта и переписывать ссылки на свой файл', async () => {
+      plugin = svgSpritePlugin({ sprites, output: 'file' });
+      plugin.configResolved({ root: testDir, command: 'build', mode: 'production' });
+
+      const emitFile = vi.fn();
+      await plugin.buildStart.call({ emitFile });
+
+      const [uiFile, logosFile] = emitFile.mock.calls.map(([asset]) => asset.fileName);
+      expect(uiFile).toMatch(/^assets\/ui\.[0-9a-f]{8}\.svg$/);
+      expect(logosFile).toMatch(/^assets\/logos\.[0-9a-f]{8}\.svg$/);
+
+      const html = '<use href="#home"></use><use href="#logo-acme"></use>';
+      const result = await plugin.transformIndexHtml.handler(html, { server: undefined, filename: 'index.html' });
+
+      expect(result).toContain(`<use href="/${uiFile}#home">`);
+      expect(result).toContain(`<use href="/${logosFile}#logo-acme">`);
+    });
+
+    it('должен экспортировать данные каждого спрайта из virtual:svg-sprite', async () => {
+      plugin = svgSpritePlugin({ sprites });
+      plugin.configResolved({ root: testDir, command: 'serve', mode: 'development' });
+      await plugin.buildStart();
+
+      const code = plugin.load('\0virtual:svg-sprite');
+
+      expect(code).toContain('export const iconIds = Object.freeze(["home","logo-acme"]);');
+      expect(code).toContain('"logos":{"spriteId":"logos-sprite","iconIds":["logo-acme"]');
+    });
+
+    it('должен генерировать SpriteIconNames в dts', async () => {
+      plugin = svgSpritePlugin({ sprites, dts: 'src/types/icons.d.ts' });
+      plugin.configResolved({ root: testDir, command: 'build', mode: 'production' });
+      await plugin.buildStart();
+
+      const dts = await readFile(resolve(testDir, 'src/types/icons.d.ts'), 'utf-8');
+      expect(dts).toContain("export type IconName =\n  | 'home'\n  | 'logo-acme';");
+      expect(dts).toContain("export interface SpriteIconNames {\n  'ui':\n    | 'home';\n  'logos':\n    | 'logo-acme';\n}");
+    });
+
+    it('должен регенерировать только спрайт измененной папки', async () => {
+      plugin = svgSpritePlugin({ sprites, debounceDelay: 10 });
+      plugin.configResolved({ root: testDir, command: 'serve', mode: 'development' });
+      await plugin.buildStart();
+
+      const mockServer = {
+        watcher: { add: vi.fn(), on: vi.fn() },
+        ws: { send: vi.fn() },
+        httpServer: { on: vi.fn() }
+      };
+      plugin.configureServer(mockServer);
+
+      expect(mockServer.watcher.add).toHaveBeenCalledTimes(2);
+
+      await writeFile(resolve(testDir, 'src/logos/globex.svg'), '<svg viewBox="0 0 48 24"><circle r="4"/></svg>');
+      const onAdd = mockServer.watcher.on.mock.calls.find(([event]) => event === 'add')[1];
+      onAdd(resolve(testDir, 'src/logos/globex.svg'));
+
+      await vi.waitFor(() => {
+        expect(mockServer.ws.send).toHaveBeenCalled();
+      });
+
+      expect(mockServer.ws.send).toHaveBeenCalledTimes(1);
+      const { data } = mockServer.ws.send.mock.calls[0][0];
+      expect(data.name).toBe('logos');
+      expect(data.spriteId).toBe('logos-sprite');
+      expect(data.iconCount).toBe(2);
+    });
+  });
+
+  describe('usage: поиск использования иконок для tree-shaking', () => {
+    beforeEach(async () => {
+      await mkdir(resolve(testDir, 'src/components'), { recursive: true });
+      for (const name of ['home', 'search', 'user', 'settings']) {
+        await writeFile(resolve(testDir, `src/icons/${name}.svg`), '<svg viewBox="0 0 24 24"><path d="M1 1h2"/></svg>');
+      }
+    });
+
+    const buildIconIds = async (pluginOptions) => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', treeShaking: true, ...pluginOptions });
+      plugin.configResolved({ root: testDir, command: 'build', mode: 'production' });
+      await plugin.buildStart.call({ emitFile: vi.fn() });
+
+      // Все исходники попадают в бандл
+      const modules = {};
+      for (const file of await readdir(resolve(testDir, 'src'), { recursive: true })) {
+        const filePath = resolve(testDir, 'src', file);
+        if (file.endsWith('.svg') || (await stat(filePath)).isDirectory()) continue;
+        await plugin.transform(await readFile(filePath, 'utf-8'), filePath);
+        modules[filePath] = { renderedLength: 1 };
+      }
+
+      const chunk = { type: 'chunk', fileName: 'assets/index.js', modules, code: plugin.load('\0virtual:svg-sprite') };
+      await renderBundle({ emitFile: vi.fn() }, { [chunk.fileName]: chunk });
+      return chunk.code.match(/export const iconIds = Object\.freeze\((.*)\);/)[1];
+    };
+
+    it('должен находить пары компонент/проп в TSX', async () => {
+      await writeFile(resolve(testDir, 'src/components/Toolbar.tsx'), `
+        type Props = { compact: boolean };
+        export const Toolbar = ({ compact }: Props) => (
+          <nav>
+            <Icon name="search" size={24} />
+            <Icon name={compact ? 'home' : \`user\`} />
+            <Button icon="settings" />
+          </nav>
+        );
+      `);
+
+      const iconIds = await buildIconIds({ usage: { components: [{ component: 'Icon', prop: 'name' }] } });
+      expect(iconIds).toBe('["home","search","user"]');
+    });
+
+    it('должен находить компоненты в шаблонах Vue и Svelte', async () => {
+      await writeFile(resolve(testDir, 'src/components/Nav.vue'), `
+        <template>
+          <app-icon :name="active ? 'home' : 'user'" />
+        </template>
+        <script setup lang="ts">
+        const active: boolean = true;
+        </script>
+      `);
+      await writeFile(resolve(testDir, 'src/components/Search.svelte'), `
+        <script>export let query;</script>
+        <AppIcon name={'search'} />
+      `);
+
+      const iconIds = await buildIconIds({ usage: { components: [{ component: 'AppIcon', prop: 'name' }] } });
+      expect(iconIds).toBe('["home","search","user"]');
+    });
+
+    it('должен находить строки в вызовах хелперов и свойствах объектов', async () => {
+      await writeFile(resolve(testDir, 'src/menu.ts'), `
+        const items: Array<{ icon: string }> = [{ icon: 'user' }];
+        export const homeIcon = iconUrl('home');
+        export const other = format('search');
+      `);
+
+      const iconIds = await buildIconIds({ usage: { helpers: ['iconUrl'], properties: ['icon'] } });
+      expect(iconIds).toBe('["home","user"]');
+    });
+
+    it('должен сохранять иконки из safelist и пользовательских extractors', async () => {
+      await writeFile(resolve(testDir, 'src/main.js'), `
+        const name = getName();
+        el.innerHTML = \`<svg><use href="#\${name}"></use></svg>\`;
+        registerIcon('search');
+      `);
+
+      const iconIds = await buildIconIds({
+        usage: {
+          safelist: ['home', /^sett/],
+          extractors: [code => Array.from(code.matchAll(/registerIcon\('([\w-]+)'\)/g), match => match[1])]
+        }
+      });
+      expect(iconIds).toBe('["home","search","settings"]');
+    });
+
+    it('должен выбрасывать ошибку при некорректной опции usage', () => {
+      expect(() => {
+        svgSpritePlugin({ usage: { components: [{ component: 'Icon' }], safelist: [42] } });
+      }).toThrow(/usage\.components must be an array of \{ component, prop \} objects[\s\S]*usage\.safelist must be an array of strings or RegExp/);
+    });
+  });
+
+  describe('treeShaking: использование иконок из графа модулей', () => {
+    const buildWithBundle = async (pluginOptions, sources, bundledIds) => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', treeShaking: true, ...pluginOptions });
+      plugin.configResolved({ root: testDir, command: 'build', mode: 'production', base: '/', build: { assetsDir: 'assets' } });
+
+      const emitFile = vi.fn();
+      await plugin.buildStart.call({ emitFile });
+
+      for (const [id, code] of Object.entries(sources)) {
+        await plugin.transform(code, id);
+      }
+
+      const html = await plugin.transformIndexHtml.handler('<html><body></body></html>', { server: undefined, filename: '' });
+      const chunk = {
+        type: 'chunk',
+        fileName: 'assets/index.js',
+        modules: Object.fromEntries(bundledIds.map(id => [id, { renderedLength: 1 }])),
+        code: plugin.load('\0virtual:svg-sprite')
+      };
+      const bundle = {
+        [chunk.fileName]: chunk,
+        'index.html': { type: 'asset', fileName: 'index.html', source: `<svg>${Array.isArray(html) ? html[0].children : ''}</svg>` }
+      };
+      await renderBundle({ emitFile }, bundle);
+
+      return { emitFile, chunk, html: bundle['index.html'].source };
+    };
+
+    beforeEach(async () => {
+      for (const name of ['home', 'search', 'user']) {
+        await writeFile(resolve(testDir, `src/icons/${name}.svg`), '<svg viewBox="0 0 24 24"><path d="M1 1h2"/></svg>');
+      }
+    });
+
+    it('не должен учитывать файлы, не попавшие в бандл', async () => {
+      const mainPath = resolve(testDir, 'src/main.js');
+      const deadPath = resolve(testDir, 'src/legacy.js');
+
+      const { chunk, html } = await buildWithBundle({}, {
+        [mainPath]: `export const icon = { href: '#home' };`,
+        [deadPath]: `export const icon = { href: '#search' };`
+      }, [mainPath]);
+
+      expect(chunk.code).toContain('export const iconIds = Object.freeze(["home"]);');
+      expect(chunk.code).not.toContain('__VITE_SVG_SPRITE_');
+      expect(html).toContain('<symbol id="home"');
+      expect(html).not.toContain('id="search"');
+    });
+
+    it('должен учитывать связанные пакеты вне корня проекта и пропускать node_modules', async () => {
+      const mainPath = resolve(testDir, 'src/main.js');
+      const linkedPath = resolve(testDir, '../packages/ui/dist/button.js');
+      const vendorPath = resolve(testDir, 'node_modules/icons-lib/index.js');
+
+      const { chunk } = await buildWithBundle({}, {
+        [mainPath]: `export const icon = { href: '#home' };`,
+        [linkedPath]: `export const icon = { href: '#user' };`,
+        [vendorPath]: `export const icon = { href: '#search' };`
+      }, [mainPath, linkedPath, vendorPath]);
+
+      expect(chunk.code).toContain('export const iconIds = Object.freeze(["home","user"]);');
+    });
+
+    it('должен эмитить спрайт и переписывать ссылки после сборки бандла', async () => {
+      const mainPath = resolve(testDir, 'src/main.js');
+
+      const { emitFile, chunk } = await buildWithBundle({ output: 'file' }, {
+        [mainPath]: `export const icon = { href: '#user' };`
+      }, [mainPath]);
+
+      expect(emitFile).toHaveBeenCalledTimes(1);
+      const { fileName, source } = emitFile.mock.calls[0][0];
+      expect(source).toContain('id="user"');
+      expect(source).not.toContain('id="home"');
+      expect(chunk.code).toContain(`export const spriteUrl = "/${fileName}";`);
+    });
+    it('должен менять имя чанка при изменении иконки (хеш учитывает подставленный спрайт)', async () => {
+      await writeFile(resolve(testDir, 'index.html'), '<html><body><script type="module" src="/src/main.js"></script></body></html>');
+      await writeFile(resolve(testDir, 'src/main.js'), `import { spriteUrl, iconIds } from 'virtual:svg-sprite';\nconsole.log(spriteUrl, iconIds, h('use', { href: '#home' }));`);
+
+      const [before] = await buildChunkNames({ output: 'file' });
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), '<svg viewBox="0 0 24 24"><path d="M2 2h2"/></svg>');
+      const [after] = await buildChunkNames({ output: 'file' });
+
+      expect(before).toMatch(/^assets\/index-[\w-]+\.js$/);
+      expect(after).not.toBe(before);
+    });
+
+    it('должен учитывать иконки Icon компонентов virtual:svg-sprite/react | vue', async () => {
+      const appPath = resolve(testDir, 'src/App.jsx');
+      const pagePath = resolve(testDir, 'src/Page.vue');
+
+      const { chunk } = await buildWithBundle({}, {
+        [appPath]: `import { Icon as SvgIcon } from 'virtual:svg-sprite/react';\nexport const App = () => <SvgIcon name="home" />;`,
+        [pagePath]: `<script setup>\nimport Icon from 'virtual:svg-sprite/vue';\n</script>\n<template><Icon name="user" /></template>`
+      }, [appPath, pagePath]);
+
+      expect(chunk.code).toContain('export const iconIds = Object.freeze(["home","user"]);');
+    });
+  });
+
+  describe('chunkSprites: спрайты lazy чанков', () => {
+    beforeEach(async () => {
+      for (const name of ['home', 'search', 'user']) {
+        await writeFile(resolve(testDir, `src/icons/${name}.svg`), '<svg viewBox="0 0 24 24"><path d="M1 1h2"/></svg>');
+      }
+    });
+
+    const buildChunks = async (sources) => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', treeShaking: true, chunkSprites: true });
+      plugin.configResolved({ root: testDir, command: 'build', mode: 'production', base: '/', build: { assetsDir: 'assets' } });
+      await plugin.buildStart.call({ emitFile: vi.fn() });
+
+      for (const [id, code] of Object.entries(sources)) {
+        await plugin.transform(code, resolve(testDir, id));
+      }
+
+      const chunk = (fileName, ids, extra) => ({
+        type: 'chunk',
+        fileName,
+        name: fileName.slice('assets/'.length, -'.js'.length),
+        imports: [],
+        isEntry: false,
+        code: `// ${fileName}\n`,
+        modules: Object.fromEntries(ids.map(id => [resolve(testDir, id), { renderedLength: 1 }])),
+        ...extra
+      });
+      const bundle = {
+        'assets/index.js': chunk('assets/index.js', ['src/main.js'], {
+          isEntry: true,
+          imports: ['assets/shared.js'],
+          code: plugin.load('\0virtual:svg-sprite')
+        }),
+        'assets/shared.js': chunk('assets/shared.js', ['src/shared.js']),
+        'assets/settings.js': chunk('assets/settings.js', ['src/settings.js'], { imports: ['assets/shared.js'] })
+      };
+      await renderBundle({ emitFile: vi.fn() }, bundle);
+
+      return bundle;
+    };
+
+    it('должен оставлять в инлайн спрайте только иконки начальной загрузки', async () => {
+      const bundle = await buildChunks({
+        'src/main.js': `export const icon = { href: '#home' };`,
+        'src/shared.js': `export const icon = { href: '#user' };`,
+        'src/settings.js': `export const icons = [{ href: '#search' }, { href: '#home' }];`
+      });
+
+      expect(bundle['assets/index.js'].code).toContain('export const iconIds = Object.freeze(["home","user"]);');
+
+      const settings = bundle['assets/settings.js'].code;
+      expect(settings).toContain('document.getElementById(spriteId)');
+      expect(settings).toContain('"sprite-id"');
+      expect(settings).toContain('<symbol id=\\"search\\"');
+      expect(settings).not.toContain('<symbol id=\\"home\\"');
+
+      // Статически импортированный чанк загружается сразу - его иконки в инлайн спрайте
+      expect(bundle['assets/shared.js'].code).not.toContain('document.getElementById');
+    });
+
+    it('должен менять имя lazy чанка при изменении его иконки', async () => {
+      await writeFile(resolve(testDir, 'index.html'), '<html><body><script type="module" src="/src/main.js"></script></body></html>');
+      await writeFile(resolve(testDir, 'src/main.js'), `console.log(h('use', { href: '#home' }));\nimport('./settings.js');`);
+      await writeFile(resolve(testDir, 'src/settings.js'), `export const icon = h('use', { href: '#search' });`);
+      const findSettings = names => names.find(name => name.startsWith('assets/settings-'));
+
+      const before = findSettings(await buildChunkNames({ chunkSprites: true }));
+      await writeFile(resolve(testDir, 'src/icons/search.svg'), '<svg viewBox="0 0 24 24"><path d="M2 2h2"/></svg>');
+      const after = findSettings(await buildChunkNames({ chunkSprites: true }));
+
+      expect(before).toBeDefined();
+      expect(after).not.toBe(before);
+    });
+
+    it('не должен включать все иконки, если точки входа не используют иконок', async () => {
+      const bundle = await buildChunks({
+        'src/main.js': 'export const main = 1;',
+        'src/settings.js': `export const icon = { href: '#search' };`
+      });
+
+      expect(bundle['assets/index.js'].code).toContain('export const iconIds = Object.freeze([]);');
+      expect(bundle['assets/settings.js'].code).toContain('<symbol id=\\"search\\"');
+    });
+
+    it('должен выбрасывать ошибку при chunkSprites без output: inline', () => {
+      expect(() => {
+        svgSpritePlugin({ chunkSprites: true, output: 'file' });
+      }).toThrow(/chunkSprites requires output: 'inline'/);
+    });
+  });
+
+  describe('report: отчет об использовании иконок', () => {
+    beforeEach(async () => {
+      for (const name of ['home', 'search', 'user']) {
+        await writeFile(resolve(testDir, `src/icons/${name}.svg`), '<svg viewBox="0 0 24 24"><path d="M1 1h2"/></svg>');
+      }
+    });
+
+    const buildReport = async (pluginOptions, context) => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', ...pluginOptions });
+      plugin.configResolved({ root: testDir, command: 'build', mode: 'production', base: '/', build: { assetsDir: 'assets' } });
+      await plugin.buildStart.call(context);
+
+      const sources = {
+        'index.html': '<body>\n  <a href="#top">Top</a>\n  <svg><use href="#home"></use></svg>\n</body>',
+        'src/main.js': `import './style.css';\n\nexport const icons = [\n  h('use', { href: '#home' }),\n  h('use', { href: '#serch' })\n];`,
+        'src/nav.js': `export const links = [{ href: '#pricing', label: 'Pricing' }];`
+      };
+      for (const [file, code] of Object.entries(sources)) {
+        await plugin.transform(code, resolve(testDir, file));
+      }
+
+      const chunk = {
+        type: 'chunk',
+        fileName: 'assets/index.js',
+        facadeModuleId: resolve(testDir, 'index.html'),
+        modules: {
+          [resolve(testDir, 'index.html')]: { renderedLength: 0 },
+          [resolve(testDir, 'src/main.js')]: { renderedLength: 1 },
+          [resolve(testDir, 'src/nav.js')]: { renderedLength: 1 }
+        },
+        code: ''
+      };
+      await renderBundle(context, { [chunk.fileName]: chunk });
+    };
+
+    it('должен эмитить sprite-report.json с местами использования и размерами', async () => {
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation();
+      const emitFile = vi.fn();
+
+      await buildReport({ report: true }, { emitFile, error: vi.fn() });
+
+      const reportFile = emitFile.mock.calls.find(([file]) => file.fileName === 'sprite-report.json')[0];
+      const report = JSON.parse(reportFile.source);
+
+      expect(report.summary).toMatchObject({ icons: 3, used: 1, unused: 2, missing: 1 });
+      const home = report.sprites[0].icons.find(icon => icon.id === 'home');
+      expect(home.file).toBe('src/icons/home.svg');
+      expect(home.originalSize).toBeGreaterThan(0);
+      expect(home.symbolSize).toBe(Buffer.byteLength('<symbol id="home" viewBox="0 0 24 24"><path d="M1 1h2"/></symbol>'));
+      expect(home).not.toHaveProperty('optimizedSize');
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringMatching(/Size: [\d.]+ KB files → [\d.]+ KB symbols/));
+      expect(home.references).toEqual(['index.html:3', 'src/main.js:4']);
+      expect(report.sprites[0].unused).toEqual(['search', 'user']);
+
+      // Якоря <a href="#top"> и { href: '#pricing' } не считаются ссылками на иконки
+      expect(report.missing).toEqual([{ id: 'serch', file: 'src/main.js', line: 5 }]);
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Missing: "serch" at src/main.js:5'));
+
+      consoleSpy.mockRestore();
+    });
+
+    it('должен останавливать сборку при ссылках на несуществующие иконки (failOnMissingIcons)', async () => {
+      const error = vi.fn();
+
+      await buildReport({ failOnMissingIcons: true }, { emitFile: vi.fn(), error });
+
+      expect(error).toHaveBeenCalledTimes(1);
+      expect(error.mock.calls[0][0]).toContain('"serch" at src/main.js:5');
+      expect(error.mock.calls[0][0]).not.toContain('pricing');
+    });
+
+    it('должен выбрасывать ошибку при некорректных опциях отчета', () => {
+      expect(() => {
+        svgSpritePlugin({ report: 'yes', failOnMissingIcons: 1 });
+      }).toThrow(/report must be a boolean[\s\S]*failOnMissingIcons must be a boolean/);
+    });
+  });
+
+  describe('mode: раскладка файла спрайта', () => {
+    beforeEach(async () => {
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), '<svg viewBox="0 0 24 24"><path d="M1 1h2"/></svg>');
+      await writeFile(resolve(testDir, 'src/icons/search.svg'), '<svg viewBox="0 0 16 16"><circle r="4"/></svg>');
+    });
+
+    const emitSpriteFile = async (pluginOptions) => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', output: 'file', ...pluginOptions });
+      plugin.configResolved({ root: testDir, command: 'build', mode: 'production', base: '/', build: { assetsDir: 'assets' } });
+
+      const emitFile = vi.fn();
+      await plugin.buildStart.call({ emitFile });
+      return emitFile.mock.calls[0][0].source;
+    };
+
+    it('должен генерировать stack спрайт с :target фрагментами', async () => {
+      const source = await emitSpriteFile({ mode: 'stack' });
+
+      expect(source).toContain('<style>:root>svg{display:none}:root>svg:target{display:inline}</style>');
+      expect(source).toContain('<svg id="home" viewBox="0 0 24 24"><path d="M1 1h2"/></svg>');
+      expect(source).toContain('<svg id="search" viewBox="0 0 16 16">');
+      expect(source).not.toContain('<symbol');
+
+      // Инлайн данные и virtual:svg-sprite остаются на <symbol>
+      expect(plugin.load('\0virtual:svg-sprite')).toContain('<symbol id=\\"home\\"');
+    });
+
+    it('должен раскладывать иконки view спрайта по сетке с <view> фрагментами', async () => {
+      const source = await emitSpriteFile({ mode: 'view' });
+
+      // 2 иконки → 2 колонки, ячейка 24 + 2 (отступ)
+      expect(source).toContain('viewBox="0 0 52 26"');
+      expect(source).toContain('<view id="home" viewBox="0 0 24 24"/>');
+      expect(source).toContain('<svg x="0" y="0" width="24" height="24" viewBox="0 0 24 24">');
+      expect(source).toContain('<view id="search" viewBox="26 0 16 16"/>');
+      expect(source).toContain('<svg x="26" y="0" width="16" height="16" viewBox="0 0 16 16">');
+    });
+
+    it('должен требовать внешний файл для stack и view', () => {
+      expect(() => {
+        svgSpritePlugin({ mode: 'stack' });
+      }).toThrow(/mode 'stack' \| 'view' requires output: 'file' or 'both'/);
+      expect(() => {
+        svgSpritePlugin({ output: 'file', mode: 'grid' });
+      }).toThrow(/mode must be one of: symbol, stack, view/);
+      expect(() => {
+        svgSpritePlugin({ output: 'both', sprites: [{ name: 'logos', iconsFolder: 'src/logos', mode: 'view' }] });
+      }).not.toThrow();
+    });
+  });
+
+  describe('css: stylesheet для CSS фонов', () => {
+    beforeEach(async () => {
+      await writeFile(resolve(testDir, 'src/icons/home.svg'), '<svg viewBox="0 0 24 24"><path d="M1 1h2"/></svg>');
+      await writeFile(resolve(testDir, 'src/icons/search.svg'), '<svg viewBox="0 0 16 16"><circle r="4"/></svg>');
+    });
+
+    it('должен генерировать custom property с data URI и класс для каждой иконки', async () => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', css: { prefix: 'i-' } });
+      plugin.configResolved({ root: testDir, command: 'serve', mode: 'development' });
+      await plugin.buildStart();
+
+      expect(plugin.resolveId('virtual:svg-sprite.css')).toBe('\0virtual:svg-sprite.css');
+      const css = await plugin.load('\0virtual:svg-sprite.css');
+
+      expect(css).toContain(
+        '--i-home: url("data:image/svg+xml,%3Csvg xmlns=%22http://www.w3.org/2000/svg%22 viewBox=%220 0 24 24%22%3E%3Cpath d=%22M1 1h2%22/%3E%3C/svg%3E");'
+      );
+      expect(css).toContain('viewBox=%220 0 16 16%22');
+      expect(css).toContain('.i-search {\n  background-image: var(--i-search);\n}');
+    });
+
+    it('должен требовать опцию css для virtual:svg-sprite.css', () => {
+      plugin = svgSpritePlugin();
+      const error = vi.fn(message => { throw new Error(message); });
+
+      expect(() => plugin.load.call({ error }, '\0virtual:svg-sprite.css')).toThrow(/requires the css option/);
+      expect(() => {
+        svgSpritePlugin({ css: { prefix: '1-' } });
+      }).toThrow(/css.prefix must be a valid CSS class name prefix/);
+    });
+
+    it('должен обновлять stylesheet через HMR как CSS модуль', async () => {
+      plugin = svgSpritePlugin({ iconsFolder: 'src/icons', css: true, watch: true, debounceDelay: 10 });
+      plugin.configResolved({ root: testDir, command: 'serve', mode: 'development' });
+      await plugin.buildStart();
+
+      const cssModule = { id: '\0virtual:svg-sprite.css' };
+      const mockServer = {
+        watcher: { add: vi.fn(), on: vi.fn() },
+        ws: { send: vi.fn() },
+        httpServer: { on: vi.fn() },
+        moduleGraph: { getModuleById: vi.fn(id => (id === cssModule.id ? cssModule : undefined)) },
+        reloadModule: vi.fn()
+      };
+      plugin.configureServer(mockServer);
+
+      await writeFile(resolve(testDir, 'src/icons/user.svg'), '<svg viewBox="0 0 24 24"><rect width="4"/></svg>');
+      const onAdd = mockServer.watcher.on.mock.calls.find(([event]) => event === 'add')[1];
+      onAdd(resolve(testDir, 'src/icons/user.svg'));
+
+      await vi.waitFor(() => {
+        expect(mockServer.reloadModule).toHaveBeenCalledWith(cssModule);
+      });
+
+      expect(await plugin.load('\0virtual:svg-sprite.css')).toContain('.icon-user {');
+    });
+  });
+
   describe('apply() функция и preview режим', () => {
     it('должен применяться в build режиме', () => {
       plugin = svgSpritePlugin({
@@ -711,7 +2737,7 @@ describe('vite-svg-sprite-generator-plugin', () => {
       // Должен быть HMR скрипт
       const scriptTag = result.find(tag => tag.tag === 'script');
       expect(scriptTag).toBeDefined();
-      expect(scriptTag.children).toContain('import.meta.hot');
+      expect(scriptTag.children).toContain('virtual:svg-sprite/client');
     });
   });
 });
@@ -0,0 +1,198 @@
+/**
+ * Vite SVG Sprite Plugin - Client Type Definitions
+ * Типы виртуальных модулей, доступных в коде приложения
+ *
+ * @example
+ * ```ts
+ * // src/vite-env.d.ts
+ * /// <reference types="vite-svg-sprite-generator-plugin/client" />
+ * ```
+ */
+
+/**
+ * Реестр ID иконок: дополняется файлом опции `dts` (`name: IconName`)
+ */
+interface SvgSpriteIconNames {}
+
+declare module 'virtual:svg-sprite' {
+  /** ID иконки: union из файла опции `dts`, без него - string */
+  export type IconName = SvgSpriteIconNames extends { name: infer Name } ? Name : string;
+
+  /** Пропсы Icon компонентов virtual:svg-sprite/react | vue | svelte */
+  export interface IconProps {
+    /** ID символа (с учетом `idPrefix`) */
+    name: IconName;
+    /** Ширина и высота `<svg>` (по умолчанию `'1em'`) */
+    size?: number | string;
+    /** Подпись для скринридеров (`<title>` и `role="img"`), без нее иконка `aria-hidden` */
+    title?: string;
+  }
+
+  /** ID элемента спрайта в DOM (опция `spriteId`) */
+  export const spriteId: string;
+
+  /** ID всех символов спрайта (с учетом `idPrefix`), отсортированы по алфавиту */
+  export const iconIds: readonly string[];
+
+  /** HTML спрайта: `<svg id="..."><symbol>...</symbol></svg>` */
+  export const sprite: string;
+
+  /**
+   * URL файла спрайта (при `output: 'file' | 'both'`), иначе пустая строка
+   * @example `${spriteUrl}#home` → '/assets/sprite.3f2a9c1e.svg#home'
+   */
+  export const spriteUrl: string;
+
+  /** Данные одного спрайта */
+  export interface SpriteData {
+    spriteId: string;
+    iconIds: readonly string[];
+    sprite: string;
+    spriteUrl: string;
+  }
+
+  /**
+   * Данные каждого спрайта по имени (опция `sprites`)
+   * Без опции `sprites` содержит единственный спрайт с именем `'sprite'`.
+   * Поля верхнего уровня (`spriteId`, `sprite`, `spriteUrl`) относятся к первому спрайту,
+   * `iconIds` - ко всем спрайтам
+   * @example sprites.logos.spriteUrl → '/assets/logos.9b1c2d3e.svg'
+   */
+  export const sprites: Readonly<Record<string, SpriteData>>;
+
+  const spriteModule: {
+    spriteId: string;
+    iconIds: readonly string[];
+    sprite: string;
+    spriteUrl: string;
+    sprites: Readonly<Record<string, SpriteData>>;
+  };
+  export default spriteModule;
+}
+
+/**
+ * Отдельная иконка из папки спрайта: `import home from './icons/home.svg?symbol'`
+ * Импорт учитывается tree-shaking как использование иконки
+ */
+declare module '*.svg?symbol' {
+  /** ID символа в спрайте (с учетом `idPrefix`) */
+  export const id: string;
+  export const viewBox: string;
+  /** Ссылка на символ: `#id` или URL файла спрайта с `#id` (`output: 'file' | 'both'`) */
+  export const url: string;
+  /** Самостоятельный `<svg>` иконки (shadow DOM, письма) */
+  export const svg: string;
+
+  const symbol: { readonly id: string; readonly viewBox: string; readonly url: string };
+  export default symbol;
+}
+
+/** Отдельная иконка строкой `<svg>`: `import homeSvg from './icons/home.svg?symbol=svg'` */
+declare module '*.svg?symbol=svg' {
+  export const id: string;
+  export const viewBox: string;
+  export const url: string;
+  export const svg: string;
+
+  const markup: string;
+  export default markup;
+}
+
+/** Stylesheet с иконками для CSS фонов (опция `css`): `import 'virtual:svg-sprite.css'` */
+declare module 'virtual:svg-sprite.css' {}
+
+/**
+ * HMR клиент спрайта: в dev режиме подключается в index.html автоматически,
+ * в SSR, Storybook и micro-frontends импортируется вручную
+ */
+declare module 'virtual:svg-sprite/client' {
+  /** Символ гранулярного обновления */
+  export interface SpriteSymbolUpdate {
+    id: string;
+    /** Разметка `<symbol>` */
+    symbol: string;
+  }
+
+  /** Данные HMR события `svg-sprite-update` */
+  export interface SpriteUpdate {
+    /** Имя спрайта (`'sprite'` без опции `sprites`) */
+    name: string;
+    /** ID элемента спрайта в DOM */
+    spriteId: string;
+    /** Весь спрайт (полное обновление) */
+    spriteContent?: string;
+    /** Добавленные символы (гранулярное обновление) */
+    added?: SpriteSymbolUpdate[];
+    /** Измененные символы (гранулярное обновление) */
+    changed?: SpriteSymbolUpdate[];
+    /** ID удаленных символов (гранулярное обновление) */
+    removed?: string[];
+    /** Количество иконок в спрайте */
+    iconCount: number;
+  }
+
+  /**
+   * Подписка на HMR обновления спрайта
+   * Вызывается после обновления спрайта в DOM (или сразу, если спрайта в DOM нет); вне dev режима не вызывается
+   * @returns функция отписки
+   * @example
+   * ```ts
+   * const unsubscribe = onSpriteUpdate(({ changed }) => rerenderIcons(changed));
+   * ```
+   */
+  export function onSpriteUpdate(callback: (update: SpriteUpdate) => void): () => void;
+}
+
+/**
+ * Серверный рендеринг спрайта (SSR): разметка для инлайна в серверный шаблон
+ */
+declare module 'virtual:svg-sprite/ssr' {
+  export interface RenderSpriteOptions {
+    /**
+     * ID иконок, использованных при рендере (с учетом `idPrefix`)
+     * Без опции рендерятся все иконки; спрайт без использованных иконок пропускается
+     */
+    icons?: Iterable<string>;
+    /** Имя спрайта (опция `sprites`), по умолчанию - все спрайты */
+    name?: string;
+  }
+
+  /**
+   * Разметка спрайтов: те же `<svg>` и `<symbol>`, что плагин инжектит в index.html.
+   * Включает все иконки папок независимо от tree-shaking, поэтому серверная и клиентская
+   * сборки рендерят одинаковые символы
+   * @example
+   * ```ts
+   * const html = template.replace('<!--app-sprite-->', renderSprite({ icons: usedIcons }));
+   * ```
+   */
+  export function renderSprite(options?: RenderSpriteOptions): string;
+  export default renderSprite;
+}
+
+/**
+ * Спрайт внутри shadow DOM: `<use href="#id">` не видит спрайт документа
+ */
+declare module 'virtual:svg-sprite/shadow' {
+  export interface AdoptSpriteOptions {
+    /**
+     * ID иконок, нужных компоненту (с учетом `idPrefix`)
+     * Без опции в root добавляются все символы; `<defs>` спрайта сохраняется всегда
+     */
+    icons?: Iterable<string>;
+    /** Имя спрайта (опция `sprites`), по умолчанию - все спрайты */
+    name?: string;
+  }
+
+  /**
+   * Добавляет копию спрайта в начало root. Спрайт разбирается один раз на страницу,
+   * в dev все добавленные копии обновляются при HMR
+   * @returns функция, удаляющая спрайт из root (например, в `disconnectedCallback`)
+   * @example
+   * ```ts
+   * const release = adoptSprite(this.shadowRoot!, { icons: ['home', 'search'] });
+   * ```
+   */
+  export function adoptSprite(root: ParentNode, options?: AdoptSpriteOptions): () => void;
+  export default adoptSprite;
+}
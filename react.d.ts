@@ -0,0 +1,41 @@
+/**
+ * Vite SVG Sprite Plugin - React Icon Component Types
+ *
+ * @example
+ * ```ts
+ * // src/vite-env.d.ts
+ * /// <reference types="vite-svg-sprite-generator-plugin/react" />
+ * ```
+ */
+
+/// <reference path="./client.d.ts" />
+
+declare module 'virtual:svg-sprite/react' {
+  import type { ReactElement, SVGProps } from 'react';
+  import type { IconProps } from 'virtual:svg-sprite';
+
+  export type { IconProps };
+
+  /**
+   * `<svg><use href="#name" /></svg>`: остальные пропсы передаются в `<svg>`
+   * @example
+   * ```tsx
+   * <Icon name="home" size={24} title="Home" className="nav-icon" />
+   * ```
+   */
+  export function Icon(props: IconProps & Omit<SVGProps<SVGSVGElement>, keyof IconProps>): ReactElement;
+  export default Icon;
+}
+
+/** Отдельная иконка React компонентом с инлайн `<svg>`: `import HomeIcon from './icons/home.svg?symbol=react'` */
+declare module '*.svg?symbol=react' {
+  import type { ReactElement, SVGProps } from 'react';
+  import type { IconProps } from 'virtual:svg-sprite';
+
+  export const id: string;
+  export const viewBox: string;
+  export const url: string;
+  export const svg: string;
+
+  export default function SymbolIcon(props: Omit<IconProps, 'name'> & Omit<SVGProps<SVGSVGElement>, keyof IconProps>): ReactElement;
+}
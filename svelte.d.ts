@@ -0,0 +1,29 @@
+/**
+ * Vite SVG Sprite Plugin - Svelte Icon Component Types
+ *
+ * @example
+ * ```ts
+ * // src/vite-env.d.ts
+ * /// <reference types="vite-svg-sprite-generator-plugin/svelte" />
+ * ```
+ */
+
+/// <reference path="./client.d.ts" />
+
+declare module 'virtual:svg-sprite/svelte' {
+  import type { SvelteComponent } from 'svelte';
+  import type { SVGAttributes } from 'svelte/elements';
+  import type { IconProps } from 'virtual:svg-sprite';
+
+  export type { IconProps };
+
+  /**
+   * `<svg><use href="#name" /></svg>`: остальные атрибуты передаются в `<svg>`
+   * @example
+   * ```svelte
+   * <Icon name="home" size={24} title="Home" class="nav-icon" />
+   * ```
+   */
+  export class Icon extends SvelteComponent<IconProps & Omit<SVGAttributes<SVGSVGElement>, keyof IconProps>> {}
+  export default Icon;
+}
@@ -15,14 +15,37 @@ declare module 'vite/types/customEvent.d.ts' {
      * Fired when icons are added/removed/modified in dev mode
      */
     'svg-sprite-update': {
-      /** Complete SVG sprite content */
-      spriteContent: string;
+      /** Sprite name ('sprite' unless the `sprites` option is used) */
+      name: string;
+      /** DOM id of the updated sprite element */
+      spriteId: string;
+      /**
+       * Complete SVG sprite content (full update: `hoistDefs`, emptied folder
+       * or a change that can't be mapped to a symbol)
+       */
+      spriteContent?: string;
+      /** Symbols of added icons (granular update) */
+      added?: SpriteSymbolUpdate[];
+      /** Symbols of changed icons (granular update) */
+      changed?: SpriteSymbolUpdate[];
+      /** Ids of removed symbols (granular update) */
+      removed?: string[];
       /** Number of icons in the sprite */
       iconCount: number;
     };
   }
 }
 
+/**
+ * Символ гранулярного HMR обновления (`svg-sprite-update`)
+ */
+export interface SpriteSymbolUpdate {
+  /** ID символа */
+  id: string;
+  /** Разметка `<symbol>` */
+  symbol: string;
+}
+
 /**
  * Опции плагина SVG Sprite
  */
@@ -94,12 +117,28 @@ export interface SvgSpriteOptions {
    * // С currentColor: true
    * // <path fill="#000" /> → <path fill="currentColor" />
    * // Теперь можно: .icon { color: red; }
+   * Без опции `colors`: `true` - стратегия `'mono'`, `false` - `'preserve'`
    */
   currentColor?: boolean;
 
+  /**
+   * Стратегия цвета иконок: для всех иконок или по иконкам и папкам
+   * - `'mono'` - SVGO сводит цвета к `currentColor` (многоцветные иконки дают предупреждение)
+   * - `'preserve'` - исходные цвета
+   * - `'variables'` - каждый цвет становится `var(--icon-color-N, исходный цвет)`
+   * @default {} - стратегия по опции `currentColor`
+   * @example
+   * colors: { default: 'mono', icons: { brand: 'preserve', flags: 'variables', logo: 'variables' } }
+   * // .logo { --icon-color-1: #fff; --icon-color-2: var(--accent); }
+   */
+  colors?: ColorStrategy | ColorOptions;
+
   /**
    * Tree-shaking: включать только используемые иконки
-   * Сканирует HTML/JS/TS файлы проекта и находит все <use href="#iconId">
+   * Использование иконок (<use href="#iconId">, правила `usage`) собирается из модулей,
+   * которые обрабатывает Vite, а спрайт собирается в `renderChunk` (до хеширования имен чанков) только по модулям,
+   * попавшим в бандл: неиспользуемые файлы не сохраняют иконки, а связанные пакеты
+   * монорепо учитываются. `node_modules` не проверяется.
    * Работает ТОЛЬКО в production режиме (vite build)
    * В dev режиме включены все иконки для удобства разработки
    * @default false
@@ -120,13 +159,482 @@ export interface SvgSpriteOptions {
   treeShaking?: boolean;
 
   /**
-   * Расширения файлов для сканирования при tree-shaking
+   * Расширения модулей, в которых ищется использование иконок при tree-shaking
    * @default ['.html', '.js', '.ts', '.jsx', '.tsx', '.vue', '.svelte']
    * @example ['.html', '.js', '.ts'] // Сканировать только эти типы файлов
    */
   scanExtensions?: string[];
+
+  /**
+   * Режим вывода спрайта
+   * - `'inline'` - спрайт инлайнится в каждую HTML страницу
+   * - `'file'` - спрайт эмитится как `assets/sprite.[hash].svg`,
+   *   ссылки `#id` в HTML и JS/TS переписываются на `/assets/sprite.[hash].svg#id`
+   * - `'both'` - спрайт инлайнится и дополнительно эмитится как файл
+   *
+   * Хеш в имени файла строится по содержимому спрайта, поэтому файл
+   * кэшируется браузером между страницами. В dev режиме спрайт всегда инлайнится (HMR).
+   * @default 'inline'
+   * @example
+   * ```ts
+   * svgSpritePlugin({ output: 'file' })
+   * // <use href="#home"> → <use href="/assets/sprite.3f2a9c1e.svg#home">
+   * ```
+   */
+  output?: SpriteOutputMode;
+
+  /**
+   * Путь к .d.ts файлу с union типом ID иконок (относительно корня проекта)
+   * Файл генерируется в buildStart и обновляется при изменении иконок в dev режиме,
+   * но перезаписывается только если набор иконок действительно изменился.
+   * Учитывает `idPrefix` и включает все иконки папки (независимо от tree-shaking).
+   * Файл также дополняет глобальный интерфейс `SvgSpriteIconNames`, которым типизирован
+   * проп `name` Icon компонентов `virtual:svg-sprite/react | vue | svelte`.
+   * @default false
+   * @example
+   * ```ts
+   * svgSpritePlugin({ dts: 'src/types/icons.d.ts' })
+   *
+   * // src/types/icons.d.ts
+   * export type IconName =
+   *   | 'home'
+   *   | 'search';
+   * ```
+   */
+  dts?: string | false;
+
+  /**
+   * Несколько независимых спрайтов из одного экземпляра плагина
+   * Каждый спрайт валидируется, кэшируется, отслеживается (HMR) и эмитится/инжектится отдельно.
+   * Недостающие поля спрайта берутся из опций верхнего уровня,
+   * `spriteId` по умолчанию - `${spriteId}-${name}`.
+   * При `output: 'file'` каждый спрайт эмитится как `assets/[name].[hash].svg`.
+   * @default [] (один спрайт из `iconsFolder`)
+   * @example
+   * ```ts
+   * svgSpritePlugin({
+   *   sprites: [
+   *     { name: 'ui', iconsFolder: 'src/icons/ui' },
+   *     { name: 'logos', iconsFolder: 'src/icons/logos', idPrefix: 'logo' },
+   *     { name: 'illustrations', iconsFolder: 'src/illustrations', treeShaking: true }
+   *   ]
+   * })
+   * ```
+   */
+  sprites?: SpriteConfig[];
+
+  /**
+   * Правила поиска использования иконок для tree-shaking
+   * Ссылки `href="#id"` находятся всегда. При заданных `components`, `helpers`
+   * или `properties` файлы разбираются в AST (JS/TS/JSX/TSX, `<script>` и шаблоны HTML/Vue/Svelte),
+   * поэтому находятся иконки, переданные через пропсы и хелперы.
+   * ID ищутся как с `idPrefix`, так и без него.
+   * @default {}
+   * @example
+   * ```ts
+   * svgSpritePlugin({
+   *   treeShaking: true,
+   *   usage: {
+   *     components: [{ component: 'Icon', prop: 'name' }], // <Icon name="home" />
+   *     helpers: ['icon'],                                 // icon('search')
+   *     properties: ['icon'],                              // { icon: 'menu' }
+   *     safelist: ['close', /^flag-/],                     // динамические ID
+   *     extractors: [(code) => code.match(/i-[a-z]+/g) ?? []]
+   *   }
+   * })
+   * ```
+   */
+  usage?: UsageOptions;
+
+  /**
+   * Спрайты lazy чанков для SPA с code-splitting (только вместе с `treeShaking`)
+   * В инлайн спрайт попадают иконки чанков начальной загрузки (точки входа и их
+   * статические импорты). Иконки, нужные только динамически импортируемым чанкам,
+   * встраиваются в эти чанки и при импорте добавляются в контейнер `spriteId`
+   * (символы, которые уже есть в документе, пропускаются).
+   * Поддерживается только `output: 'inline'`.
+   * @default false
+   * @example
+   * ```ts
+   * svgSpritePlugin({ treeShaking: true, chunkSprites: true })
+   *
+   * // Иконки Settings попадут в документ только после import('./routes/Settings')
+   * const Settings = lazy(() => import('./routes/Settings'));
+   * ```
+   */
+  chunkSprites?: boolean;
+
+  /**
+   * Отчет об использовании иконок (только `vite build`)
+   * Эмитит `sprite-report.json` и выводит сводку в консоль:
+   * - каждая иконка: размер файла и ее `<symbol>` в спрайте, файлы и строки, где она используется
+   * - неиспользуемые иконки
+   * - ссылки на несуществующие иконки (якоря вида `<a href="#top">` не учитываются)
+   * Использование собирается по модулям, попавшим в бандл (как при tree-shaking).
+   * @default false
+   */
+  report?: boolean;
+
+  /**
+   * Останавливать сборку при ссылках на несуществующие иконки
+   * Ошибка содержит файл и строку каждой ссылки (работает и без `report`)
+   * Учитываются только ссылки в контексте иконки: якоря вроде `{ href: '#pricing' }` сборку не останавливают
+   * @default false
+   * @example
+   * ```
+   * ❌ Missing icons referenced (failOnMissingIcons):
+   *   - "serch" at src/components/Search.tsx:12
+   * ```
+   */
+  failOnMissingIcons?: boolean;
+
+  /**
+   * Stylesheet с иконками для CSS фонов (`::before`, legacy компоненты)
+   * Включает виртуальный модуль `virtual:svg-sprite.css`: на каждую иконку custom property
+   * в `:root` (data URI) и класс с `background-image`. Содержит все иконки всех спрайтов
+   * (без tree-shaking), в dev обновляется через HMR как CSS модуль.
+   * Цвет data URI не наследуется (`currentColor` не работает) - для цветных через CSS
+   * иконок используйте `mask-image: var(--icon-home)` с `background-color: currentColor`.
+   * @default false
+   * @example
+   * ```ts
+   * // vite.config.ts: svgSpritePlugin({ css: { prefix: 'i-' } })
+   * import 'virtual:svg-sprite.css';
+   * // .i-home { background-image: var(--i-home); }
+   * ```
+   */
+  css?: boolean | SpriteCssOptions;
+
+  /**
+   * Раскладка файла спрайта (`output: 'file' | 'both'`)
+   * - `'symbol'` - `<symbol>` для `<use href="sprite.svg#home">`
+   * - `'stack'` - вложенные `<svg id>`, видна только цель фрагмента (`:target`)
+   * - `'view'` - иконки на сетке, фрагмент - `<view id viewBox>` ячейки иконки
+   *
+   * `stack` и `view` работают в `<img src>` и `background-image`. Инлайн спрайт,
+   * HMR и `virtual:svg-sprite` всегда используют `<symbol>`.
+   * @default 'symbol'
+   * @example
+   * ```ts
+   * svgSpritePlugin({ output: 'file', mode: 'view' })
+   * // <img src={`${spriteUrl}#home`}> → /assets/sprite.3f2a9c1e.svg#home
+   * ```
+   */
+  mode?: SpriteMode;
+
+  /**
+   * Атрибуты корневого `<svg>`, переносимые на `<symbol>`
+   * По умолчанию переносятся презентационные атрибуты (`fill`, `stroke`, `stroke-width`,
+   * `stroke-linecap`, `stroke-linejoin`, `opacity`, ...), `preserveAspectRatio` и `aria-*`:
+   * без них stroke-иконки (Lucide, Feather) отрисовываются залитыми черным.
+   * `id`, `viewBox` и обработчики событий не переносятся никогда, значения проверяются
+   * санитайзером (`sanitize`) так же, как атрибуты содержимого иконки.
+   * Без `viewBox` он строится из `width`/`height` (`width="32" height="16"` → `0 0 32 16`).
+   * @default {} (список по умолчанию)
+   * @example
+   * ```ts
+   * svgSpritePlugin({ rootAttributes: { deny: ['stroke-width'] } })
+   * // <svg fill="none" stroke="currentColor" stroke-width="2"> → <symbol fill="none" stroke="currentColor">
+   * ```
+   */
+  rootAttributes?: RootAttributesOptions;
+
+  /**
+   * Делать внутренние id иконок уникальными в пределах спрайта
+   * Иконки из Figma с одинаковыми `<linearGradient id="a">` или `<clipPath id="clip0">`
+   * иначе ломают друг друга. Ссылки `url(#a)`, `href="#a"`, `xlink:href`, `aria-labelledby`
+   * и CSS внутри `<style>` обновляются. Отключите, если стили приложения обращаются к id внутри иконок.
+   * @default true
+   * @example
+   * ```
+   * home.svg: <linearGradient id="a"> ... fill="url(#a)"
+   * спрайт:   <linearGradient id="home__a"> ... fill="url(#home__a)"
+   * ```
+   */
+  scopeIds?: boolean;
+
+  /**
+   * Выносить `<linearGradient>`, `<radialGradient>`, `<filter>`, `<mask>`, `<clipPath>` и `<pattern>`
+   * из символов в общий `<defs>` спрайта
+   * Firefox и Safari не рисуют такие определения внутри `<symbol>`, пока спрайт скрыт через `display: none`.
+   * Одинаковые определения разных иконок хранятся один раз, а спрайт скрывается за пределами экрана
+   * (`position: absolute; width: 0; height: 0`).
+   * @default false
+   * @example
+   * ```typescript
+   * svgSpritePlugin({ hoistDefs: true })
+   * // <svg style="position: absolute; ..."><defs><linearGradient id="home__a">...</defs><symbol id="home">...</svg>
+   * ```
+   */
+  hoistDefs?: boolean;
+
+  /**
+   * Санитайзер SVG по списку разрешенных элементов и атрибутов
+   * Все, что не входит в список, удаляется из иконки (элементы - вместе с содержимым), удаленное
+   * опасное содержимое выводится в консоль с именем файла, остальное - в verbose режиме.
+   * Ссылки проверяются с учетом символьных ссылок и пробелов (`java&#115;cript:`, `" javascript:"`).
+   * - `'standard'` - фигуры, текст, градиенты, маски, фильтры, `<a>`, `<image>`, `<style>` и анимации
+   * - `'strict'` - без `<a>`, `<image>`, `<style>`, анимаций и `data:` URL
+   * - `'off'` - без проверки (только для доверенных иконок)
+   * - объект - своя политика, поля заменяют списки уровня `'standard'`
+   * @default 'standard'
+   * @example
+   * ```typescript
+   * svgSpritePlugin({ sanitize: 'strict', failOnUnsafeIcons: true })
+   * svgSpritePlugin({ sanitize: { elements: ['path', 'circle'], attributes: ['d', 'r', 'fill'] } })
+   * ```
+   */
+  sanitize?: SanitizeLevel | SanitizePolicy;
+
+  /**
+   * Останавливать сборку, если санитайзер удалил из иконок опасное содержимое
+   * (`<script>`, обработчики событий, `javascript:` и внешние URL, небезопасный CSS).
+   * Элементы и атрибуты, просто не входящие в список, сборку не останавливают.
+   * Удаленные конструкции также попадают в `violations` иконок отчета `sprite-report.json`.
+   * @default false
+   */
+  failOnUnsafeIcons?: boolean;
+
+  /**
+   * Хранить разобранные и оптимизированные иконки в `cacheDir` Vite (`node_modules/.vite/svg-sprite`)
+   * Ключ - хеш содержимого файла и действующих настроек (SVGO конфиг и версия, `currentColor`,
+   * `sanitize`, `scopeIds`, `rootAttributes`): свежий checkout или `touch` не запускают SVGO заново,
+   * а изменение настроек сбрасывает кэш. Записи с настройками сборки, не использованные ей, после нее удаляются
+   * (записи других конфигураций с тем же `cacheDir`, например SSR сборки, сохраняются).
+   * Для CI сохраняйте `node_modules/.vite` между запусками.
+   * @default true
+   */
+  persistentCache?: boolean;
+
+  /**
+   * Разбирать, санитизировать и оптимизировать иконки SVGO в пуле `worker_threads`,
+   * чтобы большие наборы иконок не блокировали основной поток в `buildStart` и при HMR.
+   * - число - максимум worker (запускаются по мере надобности), `0` - в основном потоке
+   * - `'auto'` - по числу ядер минус одно
+   * Если worker недоступны или `svgoConfig` содержит функции (их нельзя передать в worker),
+   * иконки разбираются в основном потоке.
+   * @default 0
+   * @example
+   * ```typescript
+   * svgSpritePlugin({ svgoOptimize: true, workers: 'auto' })
+   * ```
+   */
+  workers?: number | 'auto';
+
+  /**
+   * Проверка ссылок на несуществующие иконки в dev режиме.
+   * Ссылки каждого модуля (и HTML страниц) сверяются с иконками спрайтов при трансформации
+   * и заново после каждого HMR обновления спрайта. Проверяются только ссылки в контексте иконки:
+   * `<use href>`, `href` элемента `use` в JS (`h('use', { href: '#x' })`) и `usage`;
+   * `{ href: '#pricing' }` и `<a href="#top">` считаются якорями страницы.
+   * - `'warn'` - предупреждение в консоли с файлом, строкой и подсказкой ближайшего ID
+   * - `'overlay'` - то же и error overlay Vite в браузере
+   * - `'off'` - без проверки
+   * @default 'warn'
+   * @example
+   * ```
+   * ⚠️  Unknown icon "serch" at src/App.tsx:12 - did you mean "search"?
+   * ```
+   */
+  unknownIcons?: UnknownIconsMode;
 }
 
+/**
+ * Стратегии цвета отдельных иконок и папок (опция `colors`)
+ */
+export interface ColorOptions {
+  /**
+   * Стратегия иконок без своей записи в `icons`
+   * @default 'mono' ('preserve' при currentColor: false)
+   */
+  default?: ColorStrategy;
+
+  /**
+   * Ключ - ID символа (с учетом `idPrefix`) или папка относительно папки иконок.
+   * ID иконки важнее папки, вложенная папка - родительской
+   * @example { brand: 'preserve', 'brand/social': 'variables', logo: 'variables' }
+   */
+  icons?: Record<string, ColorStrategy>;
+}
+
+/**
+ * Правила переноса атрибутов корневого `<svg>` (опция `rootAttributes`)
+ */
+export interface RootAttributesOptions {
+  /**
+   * Переносимые атрибуты (заменяют список по умолчанию)
+   * @example ['fill', 'stroke', /^aria-/]
+   */
+  allow?: Array<string | RegExp>;
+
+  /**
+   * Атрибуты, которые не переносятся даже при совпадении с `allow`
+   * @default []
+   */
+  deny?: Array<string | RegExp>;
+}
+
+/**
+ * Уровень санитайзера SVG (опция `sanitize`)
+ */
+export type SanitizeLevel = 'strict' | 'standard' | 'off';
+
+/**
+ * Своя политика санитайзера (опция `sanitize`): поля заменяют списки уровня `'standard'`
+ */
+export interface SanitizePolicy {
+  /**
+   * Разрешенные элементы
+   * @example ['g', 'path', 'circle', 'linearGradient', 'stop']
+   */
+  elements?: string[];
+
+  /**
+   * Разрешенные атрибуты (обработчики `on*` удаляются всегда)
+   * @example ['d', 'fill', 'stroke', /^aria-/]
+   */
+  attributes?: Array<string | RegExp>;
+
+  /**
+   * Разрешить внешние URL в `href`, `xlink:href` и `url()`
+   * @default false
+   */
+  allowExternalUrls?: boolean;
+}
+
+/**
+ * Настройки stylesheet (опция `css`)
+ */
+export interface SpriteCssOptions {
+  /**
+   * Префикс классов и custom properties (`.icon-home`, `--icon-home`)
+   * @default 'icon-'
+   */
+  prefix?: string;
+}
+
+/**
+ * Пользовательский extractor: возвращает ID иконок, найденные в файле
+ */
+export type IconUsageExtractor = (
+  code: string,
+  filePath: string
+) => Iterable<string> | Promise<Iterable<string>>;
+
+/**
+ * Правила поиска использования иконок (опция `usage`)
+ */
+export interface UsageOptions {
+  /**
+   * Пары компонент/проп, значение пропа - ID иконки
+   * Vue/Svelte шаблоны сравниваются без учёта регистра и дефисов (`<app-icon>` = `AppIcon`)
+   * @example [{ component: 'Icon', prop: 'name' }]
+   */
+  components?: Array<{ component: string; prop: string }>;
+
+  /**
+   * Функции, строковые аргументы которых являются ID иконок
+   * @example ['icon', 'icons.get']
+   */
+  helpers?: string[];
+
+  /**
+   * Свойства объектов и атрибуты, значения которых являются ID иконок
+   * @example ['icon']
+   */
+  properties?: string[];
+
+  /**
+   * ID иконок, которые сохраняются в спрайте всегда
+   * @example ['close', /^flag-/]
+   */
+  safelist?: Array<string | RegExp>;
+
+  /**
+   * Пользовательские extractors для остальных случаев
+   */
+  extractors?: IconUsageExtractor[];
+}
+
+/**
+ * Конфигурация одного спрайта (опция `sprites`)
+ */
+export interface SpriteConfig {
+  /**
+   * Имя спрайта: используется в имени файла, HMR событии и `virtual:svg-sprite`
+   * @example 'logos'
+   */
+  name: string;
+
+  /**
+   * Папка с SVG иконками спрайта
+   * @example 'src/icons/logos'
+   */
+  iconsFolder: string;
+
+  /**
+   * Префикс для ID символов
+   * @default idPrefix
+   */
+  idPrefix?: string;
+
+  /**
+   * ID элемента спрайта в DOM
+   * @default `${spriteId}-${name}`
+   */
+  spriteId?: string;
+
+  /**
+   * CSS класс спрайта
+   * @default spriteClass
+   */
+  spriteClass?: string;
+
+  /**
+   * Кастомная конфигурация SVGO
+   * @default svgoConfig
+   */
+  svgoConfig?: any;
+
+  /**
+   * Tree-shaking для этого спрайта
+   * @default treeShaking
+   */
+  treeShaking?: boolean;
+
+  /**
+   * Раскладка файла спрайта
+   * @default mode
+   */
+  mode?: SpriteMode;
+
+  /**
+   * Стратегия цвета иконок спрайта
+   * @default colors
+   */
+  colors?: ColorStrategy | ColorOptions;
+}
+
+/**
+ * Режим вывода спрайта
+ */
+export type SpriteOutputMode = 'inline' | 'file' | 'both';
+
+/**
+ * Раскладка файла спрайта
+ */
+export type SpriteMode = 'symbol' | 'stack' | 'view';
+
+/**
+ * Реакция на ссылки на несуществующие иконки в dev режиме
+ */
+export type UnknownIconsMode = 'warn' | 'overlay' | 'off';
+
+/**
+ * Стратегия цвета иконки
+ */
+export type ColorStrategy = 'mono' | 'preserve' | 'variables';
+
 /**
  * Vite плагин для генерации SVG спрайтов
  * 
@@ -64,11 +64,13 @@
  * The main distribution file is vite-svg-sprite-generator-plugin.js
  */
 
-import { readFile, readdir, stat, access } from 'fs/promises';
-import { join, extname, basename, resolve, relative, isAbsolute } from 'path';
+import { readFile, readdir, stat, access, writeFile, mkdir, unlink } from 'fs/promises';
+import { join, extname, basename, dirname, resolve, relative, isAbsolute } from 'path';
 import { createHash } from 'crypto';
+import { cpus } from 'os';
+import { Worker, isMainThread, parentPort, workerData } from 'worker_threads';
 import { normalizePath, createFilter } from 'vite';
-import type { Plugin, ViteDevServer, IndexHtmlTransformContext, ResolvedConfig } from 'vite';
+import type { Plugin, ViteDevServer, IndexHtmlTransformContext, ResolvedConfig, Rollup } from 'vite';
 
 // Опциональный импорт SVGO
 type SVGOConfig = any;
@@ -98,6 +100,11 @@ export interface SvgSpriteOptions {
   svgoConfig?: SVGOConfig;
   /** Конвертировать цвета в currentColor для управления через CSS (по умолчанию: true) */
   currentColor?: boolean;
+  /**
+   * Стратегия цвета иконок (по умолчанию: {} - 'mono', при currentColor: false - 'preserve')
+   * Строка - для всех иконок, объект - по иконкам и папкам: { default: 'mono', icons: { brand: 'variables' } }
+   */
+  colors?: ColorStrategy | ColorOptions;
   /** 
    * Tree-shaking: включать только используемые иконки (по умолчанию: false)
    * Сканирует HTML/JS/TS файлы и находит все <use href="#...">
@@ -109,6 +116,261 @@ export interface SvgSpriteOptions {
    * (по умолчанию: ['.html', '.js', '.ts', '.jsx', '.tsx', '.vue', '.svelte'])
    */
   scanExtensions?: string[];
+  /**
+   * Режим вывода спрайта (по умолчанию: 'inline')
+   * - 'inline' - спрайт инлайнится в HTML
+   * - 'file' - спрайт эмитится как sprite.[hash].svg, ссылки #id переписываются на URL файла
+   * - 'both' - спрайт инлайнится и дополнительно эмитится как файл
+   */
+  output?: SpriteOutputMode;
+  /**
+   * Путь к .d.ts файлу с union типом ID иконок (по умолчанию: false - не генерировать)
+   * Пример: 'src/types/icons.d.ts' → export type IconName = 'home' | 'search'
+   */
+  dts?: string | false;
+  /**
+   * Несколько независимых спрайтов из разных папок (по умолчанию: [] - один спрайт из iconsFolder)
+   * Недостающие поля каждого спрайта берутся из опций верхнего уровня
+   */
+  sprites?: SpriteConfig[];
+  /**
+   * Правила поиска использования иконок для tree-shaking (по умолчанию: {} - только href="#id")
+   * Пример: { components: [{ component: 'Icon', prop: 'name' }], helpers: ['icon'], safelist: [/^flag-/] }
+   */
+  usage?: UsageOptions;
+  /**
+   * Спрайты lazy чанков (по умолчанию: false, только с treeShaking и output: 'inline')
+   * Иконки, нужные только динамически импортируемым чанкам, не попадают в инлайн спрайт:
+   * чанк при импорте добавляет свои символы в контейнер spriteId
+   */
+  chunkSprites?: boolean;
+  /**
+   * Отчет об использовании иконок (по умолчанию: false)
+   * Эмитит sprite-report.json (размеры до/после SVGO, места использования, неиспользуемые
+   * иконки, ссылки на несуществующие иконки) и выводит сводку в консоль
+   */
+  report?: boolean;
+  /** Ошибка сборки при ссылках на несуществующие иконки (по умолчанию: false) */
+  failOnMissingIcons?: boolean;
+  /**
+   * Stylesheet с иконками для CSS фонов (по умолчанию: false)
+   * Включает виртуальный модуль virtual:svg-sprite.css: custom property и класс на каждую иконку
+   */
+  css?: boolean | SpriteCssOptions;
+  /**
+   * Раскладка файла спрайта (по умолчанию: 'symbol', 'stack' | 'view' - только с output: 'file' | 'both')
+   * - 'symbol' - <symbol> для <use href="sprite.svg#id">
+   * - 'stack' - вложенные <svg id>, видимые через :target, для <img src="sprite.svg#id"> и CSS
+   * - 'view' - иконки на сетке с <view id viewBox> для <img src="sprite.svg#id"> и CSS
+   */
+  mode?: SpriteMode;
+  /**
+   * Атрибуты корневого <svg>, переносимые на <symbol> (по умолчанию: презентационные и aria-*)
+   * Пример: { deny: ['stroke-width'] } или { allow: ['fill', /^aria-/] }
+   */
+  rootAttributes?: RootAttributesOptions;
+  /**
+   * Уникальные внутренние id иконок в спрайте (по умолчанию: true)
+   * <linearGradient id="a"> в home.svg → id="home__a", ссылки url(#a), href="#a", aria-* и <style> обновляются
+   */
+  scopeIds?: boolean;
+  /**
+   * Выносить градиенты, фильтры, маски, clipPath и pattern из символов в общий <defs> спрайта (по умолчанию: false)
+   * Одинаковые определения хранятся один раз, спрайт скрывается за экраном вместо display: none
+   */
+  hoistDefs?: boolean;
+  /**
+   * Санитайзер SVG по списку разрешенных элементов и атрибутов (по умолчанию: 'standard')
+   * 'strict' - без <style>, <image>, <a> и анимаций, 'off' - без проверки, объект - своя политика
+   */
+  sanitize?: SanitizeLevel | SanitizePolicy;
+  /** Ошибка сборки, если санитайзер удалил из иконок опасное содержимое (по умолчанию: false) */
+  failOnUnsafeIcons?: boolean;
+  /**
+   * Хранить разобранные иконки в node_modules/.vite/svg-sprite между запусками (по умолчанию: true)
+   * Ключ - хеш содержимого файла и настроек SVGO/санитайзера
+   */
+  persistentCache?: boolean;
+  /**
+   * Разбирать, санитизировать и оптимизировать иконки в пуле worker_threads (по умолчанию: 0 - в основном потоке)
+   * 'auto' - по числу ядер минус одно; если worker недоступны, иконки разбираются в основном потоке
+   */
+  workers?: number | 'auto';
+  /**
+   * Ссылки на несуществующие иконки в dev режиме (по умолчанию: 'warn')
+   * 'warn' - предупреждение с файлом, строкой и подсказкой, 'overlay' - еще и error overlay Vite, 'off' - без проверки
+   */
+  unknownIcons?: UnknownIconsMode;
+}
+
+/**
+ * Стратегии цвета отдельных иконок и папок (опция colors)
+ */
+export interface ColorOptions {
+  /** Стратегия остальных иконок (по умолчанию: 'mono', при currentColor: false - 'preserve') */
+  default?: ColorStrategy;
+  /** Ключ - ID символа (с учетом idPrefix) или папка относительно iconsFolder */
+  icons?: Record<string, ColorStrategy>;
+}
+
+/**
+ * Правила переноса атрибутов корневого <svg> (опция rootAttributes)
+ */
+export interface RootAttributesOptions {
+  /** Переносимые атрибуты (строки и RegExp) */
+  allow?: Array<string | RegExp>;
+  /** Исключения из allow (строки и RegExp) */
+  deny?: Array<string | RegExp>;
+}
+
+/**
+ * Уровень санитайзера SVG (опция sanitize)
+ */
+export type SanitizeLevel = 'strict' | 'standard' | 'off';
+
+/**
+ * Своя политика санитайзера: поля заменяют списки уровня 'standard'
+ */
+export interface SanitizePolicy {
+  /** Разрешенные элементы */
+  elements?: string[];
+  /** Разрешенные атрибуты */
+  attributes?: Array<string | RegExp>;
+  /** Разрешить внешние URL в href и url() (по умолчанию: false) */
+  allowExternalUrls?: boolean;
+}
+
+/**
+ * Настройки stylesheet (опция css)
+ */
+export interface SpriteCssOptions {
+  /** Префикс классов и custom properties (по умолчанию: 'icon-') */
+  prefix?: string;
+}
+
+/**
+ * Правила поиска использования иконок (опция usage)
+ */
+export interface UsageOptions {
+  /** Пары компонент/проп: <Icon name="home" />, h(Icon, { name: 'home' }) */
+  components?: Array<{ component: string; prop: string }>;
+  /** Функции, строковые аргументы которых являются ID иконок: icon('home') */
+  helpers?: string[];
+  /** Свойства объектов и атрибуты, значения которых являются ID иконок: { icon: 'home' } */
+  properties?: string[];
+  /** ID иконок (строки и RegExp), которые сохраняются всегда (динамические ID) */
+  safelist?: Array<string | RegExp>;
+  /** Пользовательские extractors: (code, filePath) => ID иконок */
+  extractors?: Array<(code: string, filePath: string) => Iterable<string> | Promise<Iterable<string>>>;
+}
+
+/**
+ * Конфигурация одного спрайта (опция sprites)
+ */
+export interface SpriteConfig {
+  /** Имя спрайта (используется в имени файла, HMR payload и virtual:svg-sprite) */
+  name: string;
+  /** Путь к папке с иконками спрайта */
+  iconsFolder: string;
+  /** Префикс для ID символов (по умолчанию: idPrefix) */
+  idPrefix?: string;
+  /** ID элемента спрайта в DOM (по умолчанию: `${spriteId}-${name}`) */
+  spriteId?: string;
+  /** CSS класс элемента спрайта (по умолчанию: spriteClass) */
+  spriteClass?: string;
+  /** Настройки SVGO (по умолчанию: svgoConfig) */
+  svgoConfig?: SVGOConfig;
+  /** Tree-shaking для этого спрайта (по умолчанию: treeShaking) */
+  treeShaking?: boolean;
+  /** Раскладка файла спрайта (по умолчанию: mode) */
+  mode?: SpriteMode;
+  /** Стратегия цвета иконок спрайта (по умолчанию: colors) */
+  colors?: ColorStrategy | ColorOptions;
+}
+
+/**
+ * Конфигурация спрайта после применения дефолтов
+ */
+type ResolvedSpriteConfig = Required<SpriteConfig>;
+
+/**
+ * Изолированное состояние одного спрайта
+ */
+interface SpriteState {
+  config: ResolvedSpriteConfig;
+  /** Безопасный путь к иконкам (после валидации в configResolved) */
+  iconsFolder: string;
+  allSvgFiles: string[];
+  svgFiles: string[];
+  spriteContent: string;
+  lastHash: string;
+  symbolIds: Set<string>;
+  /** Внешний файл спрайта (output: 'file' | 'both') */
+  spriteFileName: string;
+  spriteUrl: string;
+  /** Debounced регенерация в dev режиме */
+  regenerateSprite: ReturnType<typeof debounce> | null;
+  /** Кэш спрайтов для каждой HTML страницы (per-page tree-shaking) */
+  perPageSprites: Map<string, string>;
+  /** Разметка <symbol> по ID после последней сборки (гранулярный HMR) */
+  symbolMarkup: Map<string, string> | null;
+  /** Файлы, о которых сообщил watcher с прошлой регенерации */
+  changedFiles: Set<string>;
+}
+
+/**
+ * Гранулярное HMR обновление спрайта
+ */
+interface SpriteSymbolsDiff {
+  added: Array<{ id: string; symbol: string }>;
+  changed: Array<{ id: string; symbol: string }>;
+  removed: string[];
+}
+
+/**
+ * Режим вывода спрайта
+ */
+export type SpriteOutputMode = 'inline' | 'file' | 'both';
+
+/**
+ * Раскладка файла спрайта
+ */
+export type SpriteMode = 'symbol' | 'stack' | 'view';
+
+/**
+ * Реакция на ссылки на несуществующие иконки в dev режиме
+ */
+export type UnknownIconsMode = 'warn' | 'overlay' | 'off';
+
+/**
+ * Стратегия цвета иконки: 'mono' - SVGO сводит цвета к currentColor, 'preserve' - исходные цвета,
+ * 'variables' - каждый цвет становится var(--icon-color-N, исходный цвет)
+ */
+export type ColorStrategy = 'mono' | 'preserve' | 'variables';
+
+/**
+ * Фреймворки Icon компонентов (virtual:svg-sprite/react | vue | svelte)
+ */
+type IconComponentFramework = 'react' | 'vue' | 'svelte';
+
+/**
+ * Формат импорта отдельной иконки (home.svg?symbol=...): '' - дескриптор { id, viewBox, url }
+ */
+type SymbolImportFormat = '' | 'svg' | 'react' | 'vue';
+
+/**
+ * Иконка модуля home.svg?symbol
+ */
+interface SymbolModuleData {
+  /** ID символа в спрайте */
+  id: string;
+  viewBox: string;
+  /** Ссылка на символ: #id или URL файла спрайта#id */
+  url: string;
+  /** Содержимое <svg> иконки */
+  content: string;
+  /** Атрибуты корневого <svg> */
+  attributes: Record<string, string>;
 }
 
 /**
@@ -117,6 +379,71 @@ export interface SvgSpriteOptions {
 interface ParsedSVG {
   viewBox: string;
   content: string;
+  /** Атрибуты корневого <svg>, переносимые на <symbol> */
+  attributes: Record<string, string>;
+  /** Конструкции, удаленные санитайзером */
+  violations: SanitizeViolation[];
+  /** Цвета исходной иконки (предупреждение для стратегии 'mono') */
+  colors: string[];
+}
+
+/**
+ * Политика санитайзера с дефолтами
+ */
+interface ResolvedSanitizePolicy {
+  elements: Set<string>;
+  attributes: Array<string | RegExp>;
+  allowExternalUrls: boolean;
+  allowDataImages: boolean;
+}
+
+/**
+ * Конструкция, удаленная санитайзером
+ */
+interface SanitizeViolation {
+  construct: string;
+  reason: string;
+  /** Опасное содержимое (failOnUnsafeIcons), а не просто элемент или атрибут вне списка */
+  dangerous: boolean;
+}
+
+/**
+ * Настройки разбора, передаваемые в worker (только клонируемые значения)
+ */
+interface SVGProcessSettings {
+  sanitizePolicy: ResolvedSanitizePolicy | null;
+  /** null - без SVGO */
+  svgoConfig: SVGOConfig | null;
+  /** Стратегия цвета иконки */
+  colors: ColorStrategy;
+}
+
+/**
+ * Результат разбора, санитайзера и SVGO (до scopeIds и rootAttributes)
+ */
+interface ProcessedSVG {
+  viewBox: string;
+  content: string;
+  /** Все атрибуты корневого <svg> */
+  attributes: Record<string, string>;
+  /** Различные цвета fill, stroke и stop-color до SVGO */
+  colors: string[];
+  violations: SanitizeViolation[];
+  optimization: { originalSize: number; optimizedSize: number } | null;
+  optimizationError: string | null;
+}
+
+/**
+ * Ответ worker: результат или сообщение об ошибке разбора
+ */
+type SVGWorkerMessage = { result: ProcessedSVG; error?: undefined } | { result?: undefined; error: string };
+
+/**
+ * Пул worker_threads для разбора SVG
+ */
+interface SVGWorkerPool {
+  run: (task: { source: string; settings: SVGProcessSettings }) => Promise<SVGWorkerMessage>;
+  close: () => Promise<void>;
 }
 
 
@@ -132,31 +459,177 @@ const defaultOptions: Required<SvgSpriteOptions> = {
   svgoOptimize: process.env.NODE_ENV === 'production',
   svgoConfig: undefined,
   currentColor: true,
+  colors: {},
   treeShaking: false,
-  scanExtensions: ['.html', '.js', '.ts', '.jsx', '.tsx', '.vue', '.svelte']
+  scanExtensions: ['.html', '.js', '.ts', '.jsx', '.tsx', '.vue', '.svelte'],
+  output: 'inline',
+  dts: false,
+  sprites: [],
+  usage: {},
+  chunkSprites: false,
+  report: false,
+  failOnMissingIcons: false,
+  css: false,
+  mode: 'symbol',
+  rootAttributes: {},
+  scopeIds: true,
+  hoistDefs: false,
+  sanitize: 'standard',
+  failOnUnsafeIcons: false,
+  persistentCache: true,
+  workers: 0,
+  unknownIcons: 'warn'
 };
 
+// Допустимые режимы вывода спрайта
+const OUTPUT_MODES: SpriteOutputMode[] = ['inline', 'file', 'both'];
+
+// Допустимые раскладки файла спрайта
+const SPRITE_MODES: SpriteMode[] = ['symbol', 'stack', 'view'];
+
+// Реакции на ссылки на несуществующие иконки в dev режиме (опция unknownIcons)
+const UNKNOWN_ICONS_MODES: UnknownIconsMode[] = ['warn', 'overlay', 'off'];
+
+// Стратегии цвета иконок (опция colors)
+const COLOR_STRATEGIES: ColorStrategy[] = ['mono', 'preserve', 'variables'];
+
+// Отступ между ячейками view спрайта (соседние иконки не попадают в кадр при масштабировании)
+const VIEW_SPRITE_GAP = 2;
+
+// Атрибуты корневого <svg>, переносимые на <symbol> по умолчанию (опция rootAttributes):
+// содержимое символа наследует их, без них stroke-иконки (Lucide, Feather) заливаются черным
+const DEFAULT_ROOT_ATTRIBUTES: Array<string | RegExp> = [
+  'fill', 'fill-opacity', 'fill-rule', 'clip-rule', 'color', 'opacity',
+  'stroke', 'stroke-width', 'stroke-linecap', 'stroke-linejoin', 'stroke-miterlimit',
+  'stroke-dasharray', 'stroke-dashoffset', 'stroke-opacity',
+  'shape-rendering', 'preserveAspectRatio', /^aria-/
+];
+
+// Виртуальный модуль с данными спрайта для кода приложения
+const VIRTUAL_MODULE_ID = 'virtual:svg-sprite';
+const RESOLVED_VIRTUAL_MODULE_ID = '\0' + VIRTUAL_MODULE_ID;
+
+// Папка, из которой dev сервер отдает файлы спрайтов (output: 'file' | 'both')
+const DEV_SPRITE_DIR = '@svg-sprite';
+
+// Имя файла отчета об использовании иконок (опция report)
+const REPORT_FILE_NAME = 'sprite-report.json';
+
+// Виртуальный stylesheet с иконками для CSS фонов (опция css)
+const CSS_MODULE_ID = 'virtual:svg-sprite.css';
+const RESOLVED_CSS_MODULE_ID = '\0' + CSS_MODULE_ID;
+
+// Виртуальный модуль HMR клиента (onSpriteUpdate), подключается в index.html в dev режиме
+const CLIENT_MODULE_ID = 'virtual:svg-sprite/client';
+const RESOLVED_CLIENT_MODULE_ID = '\0' + CLIENT_MODULE_ID;
+
+// Виртуальный модуль для серверного рендеринга спрайта (renderSprite)
+const SSR_MODULE_ID = 'virtual:svg-sprite/ssr';
+const RESOLVED_SSR_MODULE_ID = '\0' + SSR_MODULE_ID;
+
+// Виртуальный модуль для спрайта в shadow DOM веб-компонентов (adoptSprite)
+const SHADOW_MODULE_ID = 'virtual:svg-sprite/shadow';
+const RESOLVED_SHADOW_MODULE_ID = '\0' + SHADOW_MODULE_ID;
+
+// Виртуальные модули Icon компонентов: virtual:svg-sprite/react | vue | svelte
+const ICON_COMPONENT_FRAMEWORKS: IconComponentFramework[] = ['react', 'vue', 'svelte'];
+
+// Svelte компонент компилирует vite-plugin-svelte: ID без \0 и с расширением .svelte
+const SVELTE_ICON_MODULE_ID = 'virtual:svg-sprite/svelte/Icon.svelte';
+
+// Форматы импорта отдельной иконки: home.svg?symbol (дескриптор), home.svg?symbol=svg | react | vue
+const SYMBOL_IMPORT_FORMATS: SymbolImportFormat[] = ['', 'svg', 'react', 'vue'];
+
+// Имя спрайта, собираемого из опций верхнего уровня (без опции sprites)
+const DEFAULT_SPRITE_NAME = 'sprite';
+
 // Размеры кэша
 const MAX_CACHE_SIZE = 1000;
 
-/**
- * Предкомпилированные RegExp паттерны для санитизации SVG
- * Компилируются один раз при загрузке модуля для оптимизации производительности
- * Дает ~20% улучшение для проектов с большим количеством файлов
- */
-const SECURITY_PATTERNS = Object.freeze({
-  /** Удаляет <script> теги и их содержимое */
-  script: /<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi,
-  /** Удаляет event handler атрибуты (onclick, onload, onerror, etc.) */
-  eventHandlers: /\s+on\w+\s*=\s*["'][^"']*["']/gi,
-  /** Удаляет javascript: URLs из href и xlink:href атрибутов */
-  javascriptUrls: /(?:href|xlink:href)\s*=\s*["']javascript:[^"']*["']/gi,
-  /** Удаляет data:text/html URLs (потенциальный XSS вектор) */
-  dataHtmlUrls: /href\s*=\s*["']data:text\/html[^"']*["']/gi,
-  /** Удаляет <foreignObject> элементы */
-  foreignObject: /<foreignObject\b[^>]*>.*?<\/foreignObject>/gis
+// Папка постоянного кэша разобранных иконок внутри cacheDir Vite (node_modules/.vite)
+const PERSISTENT_CACHE_DIR = 'svg-sprite';
+
+// Версия записей кэша разбора: увеличивается при изменении разбора SVG, чтобы старые записи не использовались
+const PARSE_CACHE_VERSION = 5;
+
+// 🧵 Флаг в workerData: модуль плагина загружен как worker пула разбора SVG (опция workers)
+const SVG_WORKER_FLAG = 'viteSvgSpriteWorker';
+
+// Допустимые уровни санитайзера SVG (опция sanitize)
+const SANITIZE_LEVELS: SanitizeLevel[] = ['strict', 'standard', 'off'];
+
+// Элементы SVG, допустимые на уровне 'strict': фигуры, текст, градиенты, маски и фильтры
+const STRICT_ELEMENTS: string[] = [
+  'svg', 'g', 'defs', 'symbol', 'use', 'title', 'desc', 'switch', 'view', 'marker',
+  'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'text', 'tspan', 'textPath',
+  'linearGradient', 'radialGradient', 'stop', 'clipPath', 'mask', 'pattern', 'filter',
+  'feBlend', 'feColorMatrix', 'feComponentTransfer', 'feComposite', 'feConvolveMatrix',
+  'feDiffuseLighting', 'feDisplacementMap', 'feDistantLight', 'feDropShadow', 'feFlood',
+  'feFuncA', 'feFuncB', 'feFuncG', 'feFuncR', 'feGaussianBlur', 'feMerge', 'feMergeNode',
+  'feMorphology', 'feOffset', 'fePointLight', 'feSpecularLighting', 'feSpotLight', 'feTile', 'feTurbulence'
+];
+
+// 'standard' дополнительно допускает ссылки, растровые картинки, <style> и анимации
+const STANDARD_ELEMENTS: string[] = [
+  ...STRICT_ELEMENTS,
+  'a', 'image', 'feImage', 'style', 'animate', 'animateMotion', 'animateTransform', 'set', 'mpath'
+];
+
+// Атрибуты SVG, допустимые на всех уровнях (значения ссылок и CSS проверяются отдельно)
+const SANITIZE_ATTRIBUTES: Array<string | RegExp> = [
+  // Общие
+  'id', 'class', 'style', 'lang', 'xml:lang', 'xml:space', 'tabindex', 'role', 'focusable',
+  'xmlns', /^xmlns:/, /^aria-/, /^data-/, 'href', 'xlink:href', 'xlink:title',
+  // Геометрия и координатные системы
+  'x', 'y', 'x1', 'y1', 'x2', 'y2', 'cx', 'cy', 'r', 'rx', 'ry', 'fx', 'fy', 'fr',
+  'width', 'height', 'd', 'points', 'pathLength', 'viewBox', 'preserveAspectRatio', 'transform',
+  'dx', 'dy', 'rotate', 'textLength', 'lengthAdjust', 'startOffset', 'method', 'spacing', 'side',
+  'refX', 'refY', 'markerWidth', 'markerHeight', 'markerUnits', 'orient',
+  'gradientUnits', 'gradientTransform', 'spreadMethod', 'offset', 'patternUnits', 'patternContentUnits',
+  'patternTransform', 'clipPathUnits', 'maskUnits', 'maskContentUnits', 'filterUnits', 'primitiveUnits',
+  // Презентационные атрибуты
+  'fill', 'fill-opacity', 'fill-rule', 'clip-path', 'clip-rule', 'mask', 'filter', 'opacity', 'color',
+  'stroke', 'stroke-width', 'stroke-linecap', 'stroke-linejoin', 'stroke-miterlimit',
+  'stroke-dasharray', 'stroke-dashoffset', 'stroke-opacity', 'stop-color', 'stop-opacity',
+  'display', 'visibility', 'overflow', 'marker-start', 'marker-mid', 'marker-end', 'paint-order',
+  'vector-effect', 'shape-rendering', 'color-interpolation', 'color-interpolation-filters',
+  'image-rendering', 'text-rendering', 'flood-color', 'flood-opacity', 'lighting-color',
+  'font-family', 'font-size', 'font-weight', 'font-style', 'font-variant', 'font-stretch',
+  'text-anchor', 'text-decoration', 'dominant-baseline', 'alignment-baseline', 'baseline-shift',
+  'letter-spacing', 'word-spacing', 'writing-mode', 'direction', 'unicode-bidi',
+  'mix-blend-mode', 'isolation', 'transform-origin', 'enable-background',
+  // Фильтры
+  'in', 'in2', 'result', 'stdDeviation', 'edgeMode', 'mode', 'operator', 'k1', 'k2', 'k3', 'k4',
+  'type', 'values', 'tableValues', 'slope', 'intercept', 'amplitude', 'exponent', 'order',
+  'kernelMatrix', 'divisor', 'bias', 'targetX', 'targetY', 'preserveAlpha', 'surfaceScale',
+  'diffuseConstant', 'specularConstant', 'specularExponent', 'kernelUnitLength', 'scale',
+  'xChannelSelector', 'yChannelSelector', 'azimuth', 'elevation', 'z', 'pointsAtX', 'pointsAtY',
+  'pointsAtZ', 'limitingConeAngle', 'baseFrequency', 'numOctaves', 'seed', 'stitchTiles', 'radius',
+  // Анимации
+  'attributeName', 'attributeType', 'begin', 'dur', 'end', 'min', 'max', 'restart', 'repeatCount',
+  'repeatDur', 'calcMode', 'keyTimes', 'keySplines', 'keyPoints', 'from', 'to', 'by', 'additive',
+  'accumulate', 'path', 'media'
+];
+
+// Встроенные политики санитайзера
+const SANITIZE_POLICIES: Readonly<Record<'strict' | 'standard', ResolvedSanitizePolicy>> = Object.freeze({
+  strict: { elements: new Set(STRICT_ELEMENTS), attributes: SANITIZE_ATTRIBUTES, allowExternalUrls: false, allowDataImages: false },
+  standard: { elements: new Set(STANDARD_ELEMENTS), attributes: SANITIZE_ATTRIBUTES, allowExternalUrls: false, allowDataImages: true }
 });
 
+// Элементы, которые исполняют код или встраивают документ: считаются опасными (failOnUnsafeIcons)
+const DANGEROUS_ELEMENTS = new Set(['script', 'foreignObject', 'iframe', 'object', 'embed', 'handler', 'listener']);
+
+// Анимации, которые могут подменить ссылку или обработчик через attributeName
+const ANIMATION_ELEMENTS = new Set(['animate', 'animateMotion', 'animateTransform', 'set']);
+
+// Нарушения, которые не считаются опасными: содержимое просто не входит в список разрешенных
+const HARMLESS_VIOLATIONS = new Set(['element not allowed', 'attribute not allowed', 'data URL', 'processing instruction']);
+
+// Конструкции CSS, которые исполняют код или прячут его за escape-последовательностями
+const UNSAFE_CSS_PATTERN = /@import|expression\s*\(|javascript:|behavior\s*:|-moz-binding|\\[\da-f]/i;
+const CSS_URL_PATTERN = /url\(\s*(["']?)([^"')]*)\1\s*\)/gi;
+
 /**
  * Получить оптимальную конфигурацию SVGO для спрайтов
  * @param currentColor - конвертировать цвета в currentColor
@@ -195,461 +668,2800 @@ function getDefaultSVGOConfig(currentColor = true): SVGOConfig {
 
 
 /**
- * Санитизирует SVG контент, удаляя потенциально опасные элементы
- * Использует предкомпилированные RegExp паттерны для оптимизации
- * 
- * @security
- * Защита от XSS атак через:
- * - Удаление <script> тегов
- * - Удаление event handlers (onclick, onload, onerror, etc.)
- * - Удаление javascript: URLs в href и xlink:href
- * - Удаление data:text/html URLs
- * - Удаление <foreignObject> элементов
- * 
- * @performance
- * RegExp паттерны компилируются один раз при загрузке модуля,
- * что дает ~20% улучшение производительности для больших проектов
+ * Приводит опцию sanitize к политике санитайзера (null - выключен)
+ * Поля пользовательской политики заменяют списки уровня 'standard'
  */
-function sanitizeSVGContent(content: string): string {
-  return content
-    .replace(SECURITY_PATTERNS.script, '')
-    .replace(SECURITY_PATTERNS.eventHandlers, '')
-    .replace(SECURITY_PATTERNS.javascriptUrls, '')
-    .replace(SECURITY_PATTERNS.dataHtmlUrls, '')
-    .replace(SECURITY_PATTERNS.foreignObject, '');
+function resolveSanitizePolicy(sanitize: SanitizeLevel | SanitizePolicy): ResolvedSanitizePolicy | null {
+  if (sanitize === 'off') {
+    return null;
+  }
+  if (typeof sanitize === 'string') {
+    return SANITIZE_POLICIES[sanitize];
+  }
+  
+  const standard = SANITIZE_POLICIES.standard;
+  return {
+    elements: sanitize.elements ? new Set(sanitize.elements) : standard.elements,
+    attributes: sanitize.attributes ?? standard.attributes,
+    allowExternalUrls: sanitize.allowExternalUrls ?? false,
+    allowDataImages: standard.allowDataImages
+  };
 }
 
-
-
 /**
- * Безопасно читает файл асинхронно
+ * Раскрывает символьные ссылки XML (&#115;, &#x73;, &amp;), чтобы java&#115;cript: не прошел проверку
  */
-async function readFileSafe(filePath: string): Promise<string> {
-  try {
-    return await readFile(filePath, 'utf-8');
-  } catch (error) {
-    throw new Error(`Failed to read file ${filePath}: ${(error as Error).message}`);
-  }
+function decodeXMLEntities(value: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+  return value.replace(/&(?:#(\d+)|#x([\da-fA-F]+)|(amp|lt|gt|quot|apos));/g, (reference, decimal?: string, hex?: string, name?: string) => {
+    if (name) {
+      return named[name];
+    }
+    const codePoint = decimal !== undefined ? Number(decimal) : parseInt(hex!, 16);
+    return codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : '';
+  });
 }
 
 /**
- * Генерирует тег <symbol> из SVG контента
- * @security Экранирует специальные символы в ID для предотвращения XSS
+ * Проверяет ссылку: допустимы #id и (кроме 'strict') растровые data:image
  */
-function generateSymbol(id: string, content: string, viewBox: string): string {
-  const safeId = id.replace(/[<>"'&]/g, (char) => {
-    const entities: Record<string, string> = {
-      '<': '&lt;',
-      '>': '&gt;',
-      '"': '&quot;',
-      "'": '&#39;',
-      '&': '&amp;'
-    };
-    return entities[char] || char;
-  });
+function getUrlViolation(url: string, policy: ResolvedSanitizePolicy): string | null {
+  // Браузеры игнорируют пробелы и управляющие символы внутри схемы: "java\tscript:"
+  const normalized = url.replace(/[\u0000- \u007f]+/g, '').toLowerCase();
   
-  return `<symbol id="${safeId}" viewBox="${viewBox}">${content}</symbol>`;
+  if (normalized === '' || normalized.startsWith('#')) {
+    return null;
+  }
+  if (/^data:image\/(?:png|jpe?g|gif|webp|avif)[;,]/.test(normalized)) {
+    return policy.allowDataImages ? null : 'data URL';
+  }
+  if (/^(?:javascript|vbscript|data):/.test(normalized)) {
+    return 'script URL';
+  }
+  return policy.allowExternalUrls ? null : 'external URL';
 }
 
 /**
- * Генерирует финальный SVG спрайт
+ * Проверяет CSS (<style> или атрибут style): исполняемые конструкции и url()
  */
-function generateSprite(symbols: string[], options: Required<SvgSpriteOptions>): string {
-  const symbolsHtml = symbols.length > 0 ? `\n  ${symbols.join('\n  ')}\n` : '';
-  return `<svg id="${options.spriteId}" class="${options.spriteClass}" style="display: none;">${symbolsHtml}</svg>`;
+function getCssViolation(css: string, policy: ResolvedSanitizePolicy): string | null {
+  if (UNSAFE_CSS_PATTERN.test(css)) {
+    return 'unsafe CSS';
+  }
+  for (const [, , url] of css.matchAll(CSS_URL_PATTERN)) {
+    const violation = getUrlViolation(url, policy);
+    if (violation) {
+      return violation;
+    }
+  }
+  return null;
 }
 
 /**
- * Подсчитывает количество иконок в спрайте
+ * Укорачивает значение для сообщения о нарушении (до 50 символов)
  */
-function getIconCount(sprite: string): number {
-  return (sprite.match(/<symbol/g) || []).length;
+function shortenConstruct(value: string): string {
+  return value.length > 50 ? `${value.slice(0, 47)}...` : value;
 }
 
 /**
- * Асинхронно рекурсивно сканирует папку и находит все SVG файлы
+ * Проверяет атрибут элемента (значение как в файле)
  */
-async function findSVGFiles(folderPath: string, options: { verbose?: boolean } = {}): Promise<string[]> {
-  const svgFiles: string[] = [];
-  
-  // ✅ Используем async access вместо sync existsSync
-  try {
-    await access(folderPath);
-  } catch (error) {
-    console.warn(`⚠️  Icons folder not found: ${folderPath}`);
-    if (options.verbose) {
-      console.warn(`   Reason: ${(error as Error).message}`);
-      console.warn(`   Tip: Check the 'iconsFolder' option in your Vite config`);
-    }
-    return svgFiles;
+function getAttributeViolation(name: string, value: string, policy: ResolvedSanitizePolicy): string | null {
+  if (/^on/i.test(name)) {
+    return 'event handler';
   }
-  
-  async function scanDirectory(dir: string): Promise<void> {
-    try {
-      const items = await readdir(dir, { withFileTypes: true });
-      
-      // Параллельная обработка всех элементов директории
-      await Promise.all(items.map(async (item) => {
-        // Пропускаем скрытые файлы и node_modules
-        if (item.name.startsWith('.') || item.name === 'node_modules') {
-          return;
-        }
-        
-        const fullPath = join(dir, item.name);
-        
-        if (item.isDirectory()) {
-          await scanDirectory(fullPath);
-        } else if (extname(item.name).toLowerCase() === '.svg') {
-          svgFiles.push(fullPath);
-        }
-      }));
-    } catch (error) {
-      console.error(`Failed to scan directory ${dir}:`, (error as Error).message);
-    }
+  if (!policy.attributes.some(entry => (entry instanceof RegExp ? entry.test(name) : entry === name))) {
+    return 'attribute not allowed';
   }
   
-  await scanDirectory(folderPath);
-  return svgFiles;
+  const decoded = decodeXMLEntities(value);
+  if (name === 'href' || name === 'xlink:href') {
+    return getUrlViolation(decoded, policy);
+  }
+  return getCssViolation(decoded, policy);
 }
 
 /**
- * Создает уникальный ID для символа
+ * Разметка содержимого иконки для sanitizeSVGContent: комментарии и CDATA сохраняются,
+ * <style> (группы 1-2) проверяется как CSS, у тегов группы: 3 - закрывающий слэш,
+ * 4 - имя, 5 - атрибуты, 6 - слэш самозакрывающегося тега
  */
-function generateSymbolId(filePath: string, prefix: string): string {
-  const fileName = basename(filePath, '.svg');
-  const cleanName = fileName
-    .replace(/[^a-zA-Z0-9-_]+/g, '-')
-    .replace(/^-+|-+$/g, '');
-  
-  return prefix ? `${prefix}-${cleanName}` : cleanName;
-}
+const SVG_SANITIZE_PATTERN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>|(<style\b(?:[^<>"'/]|"[^"]*"|'[^']*')*>)([\s\S]*?)<\/style\s*>|<(\/?)([A-Za-z_][\w.:-]*)((?:[^<>"'/]|"[^"]*"|'[^']*')*)(\/?)>/g;
 
 /**
- * Рекурсивно находит все файлы с указанными расширениями
- * БЕЗ внешних зависимостей - использует встроенный fs/promises
- * @param folderPath - Корневая папка для сканирования
- * @param extensions - Массив расширений для поиска (напр. ['.html', '.js'])
- * @param options - Опции сканирования
+ * Санитизирует содержимое иконки по списку разрешенных элементов и атрибутов
+ * Все, что не входит в список, удаляется (элементы - вместе с содержимым) и попадает в нарушения
+ * 
+ * @security
+ * Защита от XSS атак через:
+ * - <script>, <foreignObject>, <iframe> и любые элементы вне списка
+ * - event handlers (onclick, onload, onerror, etc.)
+ * - javascript:/vbscript:/data: и внешние URL в href, xlink:href и url() (с учетом &#115; и пробелов)
+ * - @import, expression() и внешние url() в <style> и атрибуте style
+ * - <animate>/<set> с attributeName="href" или on*
  */
-async function findFilesByExtensions(
-  folderPath: string,
-  extensions: string[],
-  options: { verbose?: boolean; maxDepth?: number } = {}
-): Promise<string[]> {
-  const files: string[] = [];
-  const { verbose = false, maxDepth = 10 } = options;
+function sanitizeSVGContent(content: string, policy: ResolvedSanitizePolicy): { content: string; violations: SanitizeViolation[] } {
+  const violations: SanitizeViolation[] = [];
+  const report = (construct: string, reason: string) => {
+    violations.push({ construct, reason, dangerous: !HARMLESS_VIOLATIONS.has(reason) });
+  };
   
-  async function scanDirectory(dir: string, depth = 0): Promise<void> {
-    // Защита от слишком глубокой рекурсии
-    if (depth > maxDepth) {
-      if (verbose) {
-        console.warn(`⚠️  Max depth ${maxDepth} reached at ${dir}`);
+  const sanitizeAttributes = (tagName: string, attributes: string) => attributes.replace(
+    /(\s+)([^\s=/>"']+)(\s*=\s*)(?:"([^"]*)"|'([^']*)')/g,
+    (attribute: string, space: string, name: string, separator: string, doubleQuoted?: string, singleQuoted?: string) => {
+      const value = (doubleQuoted ?? singleQuoted)!;
+      const reason = getAttributeViolation(name, value, policy);
+      if (!reason) {
+        return attribute;
       }
-      return;
+      report(`<${tagName} ${name}="${shortenConstruct(value)}">`, reason);
+      return '';
     }
+  );
+  
+  let result = '';
+  let lastIndex = 0;
+  // Глубина вложенности внутри удаляемого элемента
+  let skipDepth = 0;
+  
+  for (const match of content.matchAll(SVG_SANITIZE_PATTERN)) {
+    const [markup, styleOpen, css = '', closing, tagName, attributes = '', selfClosing = ''] = match;
+    if (skipDepth === 0) {
+      result += content.slice(lastIndex, match.index);
+    }
+    lastIndex = match.index! + markup.length;
     
-    try {
-      const items = await readdir(dir, { withFileTypes: true });
-      
-      await Promise.all(items.map(async (item) => {
-        // Пропускаем скрытые файлы, node_modules и dist
-        if (
-          item.name.startsWith('.') || 
-          item.name === 'node_modules' || 
-          item.name === 'dist' ||
-          item.name === 'build'
-        ) {
-          return;
-        }
-        
-        const fullPath = join(dir, item.name);
-        
-        if (item.isDirectory()) {
-          await scanDirectory(fullPath, depth + 1);
-        } else {
-          const fileExt = extname(item.name).toLowerCase();
-          if (extensions.includes(fileExt)) {
-            files.push(fullPath);
-          }
-        }
-      }));
-    } catch (error) {
-      // Тихо пропускаем папки без доступа
-      if (verbose) {
-        console.warn(`⚠️  Cannot read directory ${dir}:`, (error as Error).message);
+    if (skipDepth > 0) {
+      if (tagName && !selfClosing) {
+        skipDepth += closing ? -1 : 1;
+      }
+      continue;
+    }
+    
+    if (markup.startsWith('<?')) {
+      report(shortenConstruct(markup), 'processing instruction');
+      continue;
+    }
+    
+    if (styleOpen) {
+      if (!policy.elements.has('style')) {
+        report('<style>', 'element not allowed');
+        continue;
+      }
+      const violation = getCssViolation(decodeXMLEntities(css.replace(/<!\[CDATA\[|\]\]>/g, '')), policy);
+      if (violation) {
+        report('<style>', violation);
+        continue;
+      }
+      result += `<style${sanitizeAttributes('style', styleOpen.slice(6, -1))}>${css}</style>`;
+      continue;
+    }
+    
+    // Комментарии, CDATA и закрывающие теги оставленных элементов
+    if (!tagName || closing) {
+      result += markup;
+      continue;
+    }
+    
+    let reason: string | null = null;
+    if (!policy.elements.has(tagName)) {
+      reason = DANGEROUS_ELEMENTS.has(tagName) ? 'dangerous element' : 'element not allowed';
+    } else if (ANIMATION_ELEMENTS.has(tagName)) {
+      const target = /(?:^|\s)attributeName\s*=\s*(?:"([^"]*)"|'([^']*)')/.exec(attributes);
+      const animated = target ? (target[1] ?? target[2]).trim() : '';
+      if (animated === 'href' || animated === 'xlink:href' || /^on/i.test(animated)) {
+        reason = 'animated link or event handler';
       }
     }
+    
+    if (reason) {
+      report(`<${tagName}>`, reason);
+      skipDepth = selfClosing ? 0 : 1;
+      continue;
+    }
+    
+    result += `<${tagName}${sanitizeAttributes(tagName, attributes)}${selfClosing}>`;
   }
   
-  try {
-    await access(folderPath);
-    await scanDirectory(folderPath);
-  } catch (error) {
-    if (verbose) {
-      console.warn(`⚠️  Folder not found: ${folderPath}`);
-    }
+  if (skipDepth === 0) {
+    result += content.slice(lastIndex);
   }
   
-  return files;
+  return { content: result, violations };
 }
 
+
+
 /**
- * Находит используемые ID иконок в КОНКРЕТНОМ файле
- * @param filePath - Путь к файлу для сканирования
- * @param verbose - Подробное логирование
- * @returns Set используемых ID иконок в этом файле
+ * Безопасно читает файл асинхронно
  */
-async function findUsedIconIdsInFile(
-  filePath: string,
-  verbose = false
-): Promise<Set<string>> {
-  const usedIds = new Set<string>();
-  
-  const ICON_USAGE_PATTERNS = [
-    /<use[^>]+(?:xlink:)?href\s*=\s*["']#([a-zA-Z][\w-]*)["']/gi,
-    /(?:href|xlink:href)\s*[:=]\s*["']#([a-zA-Z][\w-]*)["']/gi
-  ];
-  
+async function readFileSafe(filePath: string): Promise<string> {
   try {
-    const content = await readFile(filePath, 'utf-8');
-    
-    for (const pattern of ICON_USAGE_PATTERNS) {
-      pattern.lastIndex = 0;
-      
-      let match;
-      while ((match = pattern.exec(content)) !== null) {
-        const iconId = match[1];
-        if (iconId && /^[a-zA-Z][\w-]*$/.test(iconId)) {
-          usedIds.add(iconId);
-        }
-      }
-    }
+    return await readFile(filePath, 'utf-8');
   } catch (error) {
-    if (verbose) {
-      console.warn(`⚠️  Cannot read file ${basename(filePath)}:`, (error as Error).message);
-    }
+    throw new Error(`Failed to read file ${filePath}: ${(error as Error).message}`);
   }
-  
-  return usedIds;
 }
 
 /**
- * Находит все используемые ID иконок в файлах проекта
- * Паттерны поиска:
- * - <use href="#iconId"> (HTML)
- * - <use xlink:href="#iconId"> (старый синтаксис SVG)
- * - href: "#iconId" (в JS объектах)
- * - href="#iconId" (в JS строках)
- * 
- * @param projectRoot - Корень проекта
- * @param scanExtensions - Расширения файлов для сканирования
- * @param verbose - Подробное логирование
- * @returns Set используемых ID иконок
+ * Результат разбора SVG файла: атрибуты корневого <svg> (как в файле) и его содержимое
  */
-async function findUsedIconIds(
-  projectRoot: string,
-  scanExtensions: string[],
-  verbose = false
-): Promise<Set<string>> {
-  const usedIds = new Set<string>();
+interface SVGDocument {
+  attributes: Record<string, string>;
+  content: string;
+}
+
+// Именованные сущности XML, которые не требуют объявления в DOCTYPE
+const XML_PREDEFINED_ENTITIES = new Set(['amp', 'lt', 'gt', 'quot', 'apos']);
+
+// Экранирование текста для подстановки в разметку (текст и значения атрибутов в любых кавычках)
+const XML_TEXT_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' };
+
+// Имя XML элемента или атрибута
+const XML_NAME_PATTERN = /[A-Za-z_:][\w.:-]*/y;
+
+/**
+ * Разбирает SVG файл XML токенизатором
+ * Корневой <svg> находится с учетом вложенных <svg>; XML декларация, DOCTYPE,
+ * комментарии, CDATA и processing instructions пропускаются, парность тегов проверяется.
+ * Сущности, объявленные в DOCTYPE (экспорт Illustrator: xmlns="&ns_svg;"), подставляются,
+ * т.к. в спрайте DOCTYPE уже нет. Ошибки разметки содержат номер строки и колонки
+ */
+function parseSVGDocument(source: string): SVGDocument {
+  const entities = new Map<string, string>();
+  const stack: Array<{ name: string; position: number }> = [];
+  let attributes: Map<string, string> | null = null;
+  let contentStart = -1;
+  let contentEnd = -1;
+  let index = 0;
   
-  // Предкомпилированные RegExp паттерны для поиска использования иконок
-  const ICON_USAGE_PATTERNS = [
-    // HTML: <use href="#iconId"> или <use xlink:href="#iconId">
-    /<use[^>]+(?:xlink:)?href\s*=\s*["']#([a-zA-Z][\w-]*)["']/gi,
-    // JS/TS: href="#iconId" или href: "#iconId" (в SVG контексте)
-    /(?:href|xlink:href)\s*[:=]\s*["']#([a-zA-Z][\w-]*)["']/gi
-  ];
+  function fail(message: string, position: number): never {
+    const lines = source.slice(0, position).split('\n');
+    throw new Error(`${message} (line ${lines.length}, column ${lines[lines.length - 1].length + 1})`);
+  }
   
-  try {
-    // Находим все файлы для сканирования
-    const filesToScan = await findFilesByExtensions(
-      projectRoot,
-      scanExtensions,
-      { verbose }
-    );
+  const skipUntil = (terminator: string, message: string) => {
+    const end = source.indexOf(terminator, index);
+    if (end === -1) {
+      fail(message, index);
+    }
+    index = end + terminator.length;
+  };
+  
+  const checkEntities = (text: string, position: number) => {
+    for (const match of text.matchAll(/&([^;\s<&]*)(;?)/g)) {
+      const [, name, semicolon] = match;
+      const isKnown = /^#(?:\d+|x[\da-fA-F]+)$/.test(name) || XML_PREDEFINED_ENTITIES.has(name) || entities.has(name);
+      if (!semicolon || !isKnown) {
+        fail(name ? `Unknown entity "&${name};"` : 'Unescaped "&"', position + match.index!);
+      }
+    }
+  };
+  
+  const readName = (): string => {
+    XML_NAME_PATTERN.lastIndex = index;
+    const match = XML_NAME_PATTERN.exec(source);
+    if (!match) {
+      fail('Invalid tag or attribute name', index);
+    }
+    index += match[0].length;
+    return match[0];
+  };
+  
+  const skipWhitespace = () => {
+    while (index < source.length && /\s/.test(source[index])) index++;
+  };
+  
+  while (index < source.length) {
+    const tagStart = source.indexOf('<', index);
+    const textEnd = tagStart === -1 ? source.length : tagStart;
+    const text = source.slice(index, textEnd);
     
-    if (verbose) {
-      console.log(`🔍 Tree-shaking: scanning ${filesToScan.length} files for icon usage...`);
+    if (stack.length === 0 && text.trim()) {
+      fail('Text outside of the root <svg> element', index + text.search(/\S/));
     }
+    checkEntities(text, index);
+    index = textEnd;
+    if (tagStart === -1) break;
     
-    // Параллельно читаем и анализируем все файлы
-    await Promise.all(filesToScan.map(async (filePath) => {
-      try {
-        const content = await readFile(filePath, 'utf-8');
+    if (source.startsWith('<!--', index)) {
+      skipUntil('-->', 'Unterminated comment');
+    } else if (source.startsWith('<![CDATA[', index)) {
+      if (stack.length === 0) {
+        fail('CDATA section outside of the root <svg> element', index);
+      }
+      skipUntil(']]>', 'Unterminated CDATA section');
+    } else if (source.startsWith('<?', index)) {
+      skipUntil('?>', 'Unterminated processing instruction');
+    } else if (/^<!DOCTYPE\b/i.test(source.slice(index, index + 9))) {
+      const subsetStart = source.indexOf('[', index);
+      const declarationEnd = source.indexOf('>', index);
+      if (subsetStart !== -1 && (declarationEnd === -1 || subsetStart < declarationEnd)) {
+        const subsetEnd = source.indexOf(']', subsetStart);
+        if (subsetEnd === -1) {
+          fail('Unterminated DOCTYPE', index);
+        }
+        for (const [, name, , value] of source.slice(subsetStart, subsetEnd).matchAll(/<!ENTITY\s+([A-Za-z_][\w.-]*)\s+(["'])([\s\S]*?)\2\s*>/g)) {
+          entities.set(name, value);
+        }
+        index = subsetEnd;
+      }
+      skipUntil('>', 'Unterminated DOCTYPE');
+    } else if (source.startsWith('</', index)) {
+      const closeStart = index;
+      index += 2;
+      const name = readName();
+      skipWhitespace();
+      if (source[index] !== '>') {
+        fail(`Malformed closing tag </${name}>`, closeStart);
+      }
+      index++;
+      
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        fail(open ? `Unexpected closing tag </${name}>, expected </${open.name}>` : `Unexpected closing tag </${name}>`, closeStart);
+      }
+      if (stack.length === 0) {
+        contentEnd = closeStart;
+      }
+    } else {
+      const tagPosition = index;
+      index++;
+      const name = readName();
+      const tagAttributes = new Map<string, string>();
+      
+      while (true) {
+        const hadWhitespace = /\s/.test(source[index] || '');
+        skipWhitespace();
+        if (index >= source.length) {
+          fail(`Unterminated tag <${name}>`, tagPosition);
+        }
+        if (source[index] === '>' || source.startsWith('/>', index)) break;
+        if (!hadWhitespace) {
+          fail(`Expected whitespace between attributes of <${name}>`, index);
+        }
         
-        // Применяем все паттерны поиска
-        for (const pattern of ICON_USAGE_PATTERNS) {
-          // Сбрасываем lastIndex для глобальных RegExp
-          pattern.lastIndex = 0;
-          
-          let match;
-          while ((match = pattern.exec(content)) !== null) {
-            const iconId = match[1];
-            // Дополнительная валидация: ID должен быть корректным
-            if (iconId && /^[a-zA-Z][\w-]*$/.test(iconId)) {
-              usedIds.add(iconId);
-            }
-          }
+        const attributeStart = index;
+        const attribute = readName();
+        skipWhitespace();
+        if (source[index] !== '=') {
+          fail(`Attribute "${attribute}" of <${name}> has no value`, attributeStart);
         }
-      } catch (error) {
-        // Тихо пропускаем файлы, которые не удалось прочитать
-        if (verbose) {
-          console.warn(`⚠️  Cannot read file ${basename(filePath)}:`, (error as Error).message);
+        index++;
+        skipWhitespace();
+        
+        const quote = source[index];
+        if (quote !== '"' && quote !== "'") {
+          fail(`Value of attribute "${attribute}" must be quoted`, index);
+        }
+        const valueEnd = source.indexOf(quote, index + 1);
+        if (valueEnd === -1) {
+          fail(`Unterminated value of attribute "${attribute}"`, index);
         }
+        const value = source.slice(index + 1, valueEnd);
+        if (value.includes('<')) {
+          fail(`Value of attribute "${attribute}" contains "<"`, index + 1 + value.indexOf('<'));
+        }
+        if (tagAttributes.has(attribute)) {
+          fail(`Duplicate attribute "${attribute}" on <${name}>`, attributeStart);
+        }
+        checkEntities(value, index + 1);
+        tagAttributes.set(attribute, value);
+        index = valueEnd + 1;
+      }
+      
+      const selfClosing = source[index] === '/';
+      index += selfClosing ? 2 : 1;
+      
+      if (stack.length === 0) {
+        if (attributes) {
+          fail(`Unexpected <${name}> after the root <svg> element`, tagPosition);
+        }
+        if (name !== 'svg') {
+          fail(`Root element must be <svg>, got <${name}>`, tagPosition);
+        }
+        attributes = tagAttributes;
+        contentStart = index;
+        contentEnd = selfClosing ? index : -1;
+      }
+      if (!selfClosing) {
+        stack.push({ name, position: tagPosition });
       }
-    }));
-    
-    if (verbose && usedIds.size > 0) {
-      console.log(`✅ Tree-shaking: found ${usedIds.size} used icons:`, Array.from(usedIds).sort());
     }
-    
-    return usedIds;
-  } catch (error) {
-    console.error('❌ Tree-shaking scan failed:', (error as Error).message);
-    return usedIds;
   }
+  
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1];
+    fail(`Unclosed tag <${open.name}>`, open.position);
+  }
+  if (!attributes) {
+    fail('No <svg> root element', 0);
+  }
+  
+  // Сущности из DOCTYPE подставляются: в спрайте их объявлений нет.
+  // Значение - текст, а не разметка: <!ENTITY o '<'> не должна собирать теги после проверки токенизатором
+  const expandEntities = (text: string) => text.replace(/&([A-Za-z_][\w.-]*);/g, (reference, name: string) => {
+    const value = entities.get(name);
+    return value === undefined ? reference : value.replace(/[&<>"']/g, char => XML_TEXT_ESCAPES[char]);
+  });
+  
+  return {
+    attributes: Object.fromEntries(Array.from(attributes, ([name, value]) => [name, expandEntities(value)])),
+    content: expandEntities(source.slice(contentStart, contentEnd))
+  };
 }
 
 /**
- * Фильтрует SVG файлы, оставляя только те, которые используются в коде
- * @param allSvgFiles - Все найденные SVG файлы
- * @param usedIconIds - Set ID иконок, которые используются
- * @param idPrefix - Префикс для ID символов
- * @param verbose - Подробное логирование
- * @returns Массив только используемых SVG файлов
+ * Отбирает атрибуты корневого <svg> для переноса на <symbol> (опция rootAttributes)
+ * id и viewBox задает плагин; значения проверяются санитайзером (policy null - только on* и javascript:)
  */
-function filterUsedSvgFiles(
-  allSvgFiles: string[],
-  usedIconIds: Set<string>,
-  idPrefix: string,
-  verbose = false
-): string[] {
-  // Если не нашли используемые иконки - включаем все (fail-safe)
-  if (usedIconIds.size === 0) {
-    if (verbose) {
-      console.warn('⚠️  Tree-shaking: no icon usage found, including all icons (fail-safe)');
-    }
-    return allSvgFiles;
-  }
-  
-  const filteredFiles = allSvgFiles.filter(filePath => {
-    const symbolId = generateSymbolId(filePath, idPrefix);
-    return usedIconIds.has(symbolId);
-  });
+function pickRootAttributes(
+  attributes: Record<string, string>,
+  rules: Required<RootAttributesOptions>,
+  policy: ResolvedSanitizePolicy | null
+): { attributes: Record<string, string>; violations: SanitizeViolation[] } {
+  const matches = (name: string, patterns: Array<string | RegExp>) => {
+    return patterns.some(entry => (entry instanceof RegExp ? entry.test(name) : entry === name));
+  };
+  const picked: Record<string, string> = {};
+  const violations: SanitizeViolation[] = [];
   
-  if (verbose) {
-    const removed = allSvgFiles.length - filteredFiles.length;
-    const savedPercent = allSvgFiles.length > 0 
-      ? ((removed / allSvgFiles.length) * 100).toFixed(1)
-      : '0';
-    
-    console.log(
-      `🌲 Tree-shaking: ${allSvgFiles.length} total → ${filteredFiles.length} used ` +
-      `(removed ${removed} unused, ${savedPercent}% reduction)`
-    );
-    
-    // Показываем какие иконки были исключены
-    if (removed > 0) {
-      const unusedFiles = allSvgFiles.filter(f => !filteredFiles.includes(f));
-      const unusedNames = unusedFiles.map(f => basename(f, '.svg'));
-      console.log(`   Unused icons: ${unusedNames.join(', ')}`);
+  for (const [name, value] of Object.entries(attributes)) {
+    if (name === 'id' || name === 'viewBox' || !matches(name, rules.allow) || matches(name, rules.deny)) {
+      continue;
+    }
+    const reason = policy
+      ? getAttributeViolation(name, value, policy)
+      : (/^on/i.test(name) || /javascript:/i.test(decodeXMLEntities(value)) ? 'event handler or script URL' : null);
+    if (reason) {
+      violations.push({ construct: `<svg ${name}="${shortenConstruct(value)}">`, reason, dangerous: !HARMLESS_VIOLATIONS.has(reason) });
+    } else {
+      picked[name] = value;
     }
   }
   
-  return filteredFiles;
+  return { attributes: picked, violations };
 }
 
+// Число в viewBox
+const VIEW_BOX_NUMBER_PATTERN = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?$/i;
+
 /**
- * Асинхронно генерирует быстрый хеш на основе mtime файлов
+ * viewBox иконки: атрибут viewBox или "0 0 width height" (размеры без единиц или в px),
+ * null - если его не из чего построить
  */
-async function generateHashFromMtime(svgFiles: string[], pluginState?: { parseCache?: Map<string, ParsedSVG> }): Promise<string> {
-  const hash = createHash('md5');
+function resolveViewBox(attributes: Record<string, string>): string | null {
+  // Только четыре числа (ширина и высота больше нуля): значение из файла попадает в разметку спрайта
+  const values = (attributes.viewBox || '').trim().split(/[\s,]+/);
+  if (values.length === 4 && values.every(value => VIEW_BOX_NUMBER_PATTERN.test(value)) && Number(values[2]) > 0 && Number(values[3]) > 0) {
+    return values.join(' ');
+  }
   
-  // Параллельно получаем stat для всех файлов
-  await Promise.all(svgFiles.map(async (file) => {
-    try {
-      const stats = await stat(file);
-      hash.update(`${file}:${stats.mtimeMs}`);
-    } catch (error) {
-      // Файл удален или недоступен - удаляем из кэша, если он доступен
-      if (pluginState?.parseCache) {
-        for (const key of pluginState.parseCache.keys()) {
-          if (key.startsWith(file + ':')) {
-            pluginState.parseCache.delete(key);
-          }
-        }
+  const width = /^\s*(\d*\.?\d+)(?:px)?\s*$/.exec(attributes.width || '');
+  const height = /^\s*(\d*\.?\d+)(?:px)?\s*$/.exec(attributes.height || '');
+  return width && height ? `0 0 ${Number(width[1])} ${Number(height[1])}` : null;
+}
+
+/**
+ * Сериализует атрибуты в строку вида ` name="value"` (пустая строка без атрибутов)
+ */
+function formatAttributes(attributes: Record<string, string>): string {
+  return Object.entries(attributes)
+    .map(([name, value]) => ` ${name}="${value.replace(/"/g, '&quot;')}"`)
+    .join('');
+}
+
+// Атрибуты со списком ID элементов через пробел
+const ID_LIST_ATTRIBUTES = new Set(['aria-labelledby', 'aria-describedby', 'aria-controls', 'aria-owns', 'aria-flowto', 'aria-details']);
+
+/**
+ * Разметка содержимого иконки для scopeSVGIds и renameSVGIds:
+ * комментарии и CDATA пропускаются, <style> (группы 1-3) обрабатывается как CSS,
+ * у остальных тегов (группы 4-5) переписываются атрибуты
+ */
+const SVG_SCOPE_PATTERN = /<!--[\s\S]*?-->|(<style\b[^>]*>)([\s\S]*?)(<\/style>)|<!\[CDATA\[[\s\S]*?\]\]>|<([A-Za-z_][\w.:-]*)((?:[^<>"']|"[^"]*"|'[^']*')*)>/g;
+const SVG_ATTRIBUTE_PATTERN = /([^\s=/>"']+)(\s*=\s*)(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Делает внутренние id иконки уникальными в пределах спрайта: id="a" → id="home__a"
+ * Обновляет ссылки url(#a), href="#a", xlink:href="#a", aria-labelledby и CSS внутри <style>
+ */
+function scopeSVGIds(content: string, scope: string): string {
+  const ids = new Set<string>();
+  for (const match of content.matchAll(SVG_SCOPE_PATTERN)) {
+    for (const [, name, , doubleQuoted, singleQuoted] of (match[5] || '').matchAll(SVG_ATTRIBUTE_PATTERN)) {
+      if (name === 'id') {
+        ids.add(doubleQuoted ?? singleQuoted);
       }
     }
-  }));
+  }
   
-  return hash.digest('hex').substring(0, 8);
+  if (ids.size === 0) {
+    return content;
+  }
+  
+  return renameSVGIds(content, new Map(Array.from(ids, (id): [string, string] => [id, `${scope}__${id}`])));
 }
 
 /**
- * Создает debounced функцию
+ * Переименовывает id внутри содержимого иконки вместе со ссылками на них (url(#a), href, aria-*, <style>)
  */
-function debounce<T extends (...args: any[]) => void>(
-  func: T,
-  delay: number
-): T & { cancel: () => void } {
-  let timeoutId: NodeJS.Timeout | undefined;
-  
-  const debouncedFunc = function(this: any, ...args: Parameters<T>) {
-    clearTimeout(timeoutId);
-    timeoutId = setTimeout(() => {
-      func.apply(this, args);
-    }, delay);
-  } as T & { cancel: () => void };
-  
-  debouncedFunc.cancel = () => {
-    clearTimeout(timeoutId);
-  };
+function renameSVGIds(content: string, rename: Map<string, string>): string {
+  const renameId = (id: string) => rename.get(id) ?? id;
+  const renameUrls = (value: string) => value.replace(/url\(\s*(["']?)#([^"')\s]+)\1\s*\)/g, (reference, quote: string, id: string) => {
+    return rename.has(id) ? `url(${quote}#${renameId(id)}${quote})` : reference;
+  });
   
-  return debouncedFunc;
+  return content.replace(SVG_SCOPE_PATTERN, (
+    markup: string,
+    styleOpen?: string,
+    css?: string,
+    styleClose?: string,
+    tagName?: string,
+    attributes = ''
+  ) => {
+    // CSS: селекторы #a и url(#a)
+    if (styleOpen) {
+      return `${styleOpen}${css!.replace(/#([A-Za-z_][\w-]*)/g, (selector, id: string) => `#${renameId(id)}`)}${styleClose}`;
+    }
+    if (!tagName) {
+      return markup;
+    }
+    
+    const renamedAttributes = attributes.replace(SVG_ATTRIBUTE_PATTERN, (
+      attribute: string,
+      name: string,
+      separator: string,
+      doubleQuoted?: string,
+      singleQuoted?: string
+    ) => {
+      const value = (doubleQuoted ?? singleQuoted)!;
+      const quote = doubleQuoted !== undefined ? '"' : "'";
+      
+      let renamed = renameUrls(value);
+      if (name === 'id') {
+        renamed = renameId(value);
+      } else if ((name === 'href' || name === 'xlink:href') && value.startsWith('#')) {
+        renamed = `#${renameId(value.slice(1))}`;
+      } else if (ID_LIST_ATTRIBUTES.has(name)) {
+        renamed = value.split(/(\s+)/).map(renameId).join('');
+      }
+      return `${name}${separator}${quote}${renamed}${quote}`;
+    });
+    return `<${tagName}${renamedAttributes}>`;
+  });
 }
 
+// Свойства с цветом, которые учитывает опция colors
+const COLOR_PROPERTIES = new Set(['fill', 'stroke', 'stop-color']);
+
+// Значения без собственного цвета: не считаются цветом иконки и не переписываются
+const NON_COLOR_VALUE_PATTERN = /^(?:none|currentcolor|inherit|initial|unset|transparent|context-fill|context-stroke)$|^(?:url|var)\(/i;
+
+// Объявления цвета в CSS (<style> и атрибут style): группа 4 - значение
+const CSS_COLOR_DECLARATION_PATTERN = /(^|[;{\s])(fill|stroke|stop-color)(\s*:\s*)([^;}]+)/g;
+
 /**
- * Валидирует опции плагина
+ * Заменяет цвета fill, stroke и stop-color иконки: атрибуты, inline style и CSS внутри <style>
+ * (атрибуты корневого <svg> обрабатываются первыми)
  */
-function validateOptions(userOptions: SvgSpriteOptions): void {
-  const errors: string[] = [];
-  
-  if (userOptions.debounceDelay !== undefined) {
-    if (typeof userOptions.debounceDelay !== 'number' || userOptions.debounceDelay < 0) {
-      errors.push('debounceDelay must be a positive number');
+function mapSVGColors(
+  content: string,
+  attributes: Record<string, string>,
+  mapColor: (color: string) => string
+): { content: string; attributes: Record<string, string> } {
+  const mapValue = (value: string) => {
+    const color = value.trim();
+    return !color || NON_COLOR_VALUE_PATTERN.test(color) ? value : mapColor(color);
+  };
+  const mapCss = (css: string) => css.replace(CSS_COLOR_DECLARATION_PATTERN, (
+    declaration: string,
+    before: string,
+    name: string,
+    separator: string,
+    value: string
+  ) => `${before}${name}${separator}${mapValue(value)}`);
+  const mapAttribute = (name: string, value: string) => {
+    if (COLOR_PROPERTIES.has(name)) {
+      return mapValue(value);
     }
-  }
+    return name === 'style' ? mapCss(value) : value;
+  };
   
-  if (userOptions.iconsFolder !== undefined) {
-    if (typeof userOptions.iconsFolder !== 'string' || !userOptions.iconsFolder.trim()) {
-      errors.push('iconsFolder must be a non-empty string');
-    }
-  }
+  const mappedAttributes = Object.fromEntries(
+    Object.entries(attributes).map(([name, value]) => [name, mapAttribute(name, value)])
+  );
   
-  if (userOptions.spriteId !== undefined) {
-    if (!/^[a-zA-Z][\w-]*$/.test(userOptions.spriteId)) {
-      errors.push('spriteId must be a valid HTML ID');
+  const mappedContent = content.replace(SVG_SCOPE_PATTERN, (
+    markup: string,
+    styleOpen?: string,
+    css?: string,
+    styleClose?: string,
+    tagName?: string,
+    tagAttributes = ''
+  ) => {
+    if (styleOpen) {
+      return `${styleOpen}${mapCss(css!)}${styleClose}`;
     }
-  }
-  
-  if (userOptions.idPrefix !== undefined) {
-    if (typeof userOptions.idPrefix !== 'string') {
-      errors.push('idPrefix must be a string');
+    if (!tagName) {
+      return markup;
     }
-  }
+    
+    return `<${tagName}${tagAttributes.replace(SVG_ATTRIBUTE_PATTERN, (
+      attribute: string,
+      name: string,
+      separator: string,
+      doubleQuoted?: string,
+      singleQuoted?: string
+    ) => {
+      const value = (doubleQuoted ?? singleQuoted)!;
+      const quote = doubleQuoted !== undefined ? '"' : "'";
+      return `${name}${separator}${quote}${mapAttribute(name, value)}${quote}`;
+    })}>`;
+  });
   
-  if (errors.length > 0) {
-    throw new Error(`❌ Invalid SVG Sprite Plugin options:\n- ${errors.join('\n- ')}`);
-  }
+  return { content: mappedContent, attributes: mappedAttributes };
 }
 
+/**
+ * Приводит цвет к виду для сравнения: регистр и короткий hex (#F00 и #ff0000 - один цвет)
+ */
+function normalizeColor(color: string): string {
+  const lower = color.toLowerCase();
+  return /^#[\da-f]{3}$/.test(lower) ? lower.replace(/[\da-f]/g, digit => digit + digit) : lower;
+}
 
 /**
- * Логгер с учетом verbose режима
+ * Различные цвета иконки в порядке появления (корневой <svg>, затем содержимое)
  */
-function createLogger(options: Required<SvgSpriteOptions>) {
-  return {
+function collectSVGColors(content: string, attributes: Record<string, string>): string[] {
+  const colors = new Set<string>();
+  mapSVGColors(content, attributes, (color) => {
+    colors.add(normalizeColor(color));
+    return color;
+  });
+  return Array.from(colors);
+}
+
+/**
+ * 🎨 Стратегия 'variables': каждый различный цвет → var(--icon-color-N, исходный цвет)
+ * (номера - в порядке появления цвета, одинаковые цвета получают одну переменную)
+ */
+function replaceSVGColors(
+  content: string,
+  attributes: Record<string, string>
+): { content: string; attributes: Record<string, string> } {
+  const variables = new Map<string, string>();
+  return mapSVGColors(content, attributes, (color) => {
+    const key = normalizeColor(color);
+    if (!variables.has(key)) {
+      variables.set(key, `--icon-color-${variables.size + 1}`);
+    }
+    return `var(${variables.get(key)}, ${color})`;
+  });
+}
+
+/**
+ * Стратегия цвета иконки (опция colors): ID символа, затем ближайшая папка, затем default
+ * @param fallback - стратегия без default (из опции currentColor)
+ */
+function resolveColorStrategy(
+  colors: ColorStrategy | ColorOptions,
+  symbolId: string,
+  relativePath: string,
+  fallback: ColorStrategy
+): ColorStrategy {
+  if (typeof colors === 'string') {
+    return colors;
+  }
+  
+  const icons = colors.icons ?? {};
+  if (icons[symbolId]) {
+    return icons[symbolId];
+  }
+  
+  const folders = relativePath.split('/').slice(0, -1);
+  for (let depth = folders.length; depth > 0; depth--) {
+    const folder = folders.slice(0, depth).join('/');
+    if (icons[folder]) {
+      return icons[folder];
+    }
+  }
+  
+  return colors.default ?? fallback;
+}
+
+// Определения, переносимые из символов в общий <defs> спрайта (опция hoistDefs)
+const HOISTED_DEFINITION_TAGS = new Set(['linearGradient', 'radialGradient', 'filter', 'mask', 'clipPath', 'pattern']);
+
+/**
+ * Разметка содержимого иконки для extractSVGDefinitions:
+ * комментарии, CDATA и <style> пропускаются, группы тегов: 1 - закрывающий слэш, 2 - имя, 3 - атрибуты
+ */
+const SVG_TAG_PATTERN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<style\b[^>]*>[\s\S]*?<\/style>|<(\/?)([A-Za-z_][\w.:-]*)((?:[^<>"']|"[^"]*"|'[^']*')*)>/g;
+
+interface SVGDefinition {
+  id: string;
+  markup: string;
+}
+
+/**
+ * Вырезает из содержимого иконки определения (градиенты, фильтры, маски, clipPath, pattern)
+ * Вложенные определения уходят вместе с родителем, определения без id остаются на месте
+ */
+function extractSVGDefinitions(content: string): { content: string; definitions: SVGDefinition[] } {
+  const definitions: SVGDefinition[] = [];
+  let result = '';
+  let lastIndex = 0;
+  let current: { id: string; start: number; depth: number } | null = null;
+  
+  for (const match of content.matchAll(SVG_TAG_PATTERN)) {
+    const [markup, closing, tagName, attributes = ''] = match;
+    if (!tagName) continue;
+    const selfClosing = attributes.endsWith('/');
+    
+    // Внутри выносимого определения считаем глубину до его закрывающего тега
+    if (current) {
+      current.depth += closing ? -1 : selfClosing ? 0 : 1;
+      if (current.depth === 0) {
+        lastIndex = match.index! + markup.length;
+        definitions.push({ id: current.id, markup: content.slice(current.start, lastIndex) });
+        current = null;
+      }
+      continue;
+    }
+    
+    if (closing || !HOISTED_DEFINITION_TAGS.has(tagName)) continue;
+    
+    const idMatch = /(?:^|\s)id\s*=\s*(?:"([^"]*)"|'([^']*)')/.exec(attributes);
+    if (!idMatch) continue;
+    
+    const id = idMatch[1] ?? idMatch[2];
+    result += content.slice(lastIndex, match.index);
+    if (selfClosing) {
+      lastIndex = match.index! + markup.length;
+      definitions.push({ id, markup });
+    } else {
+      current = { id, start: match.index!, depth: 1 };
+    }
+  }
+  
+  // Незакрытое определение (невалидная разметка) остается в содержимом
+  result += content.slice(current ? current.start : lastIndex);
+  
+  return {
+    content: result.replace(/<defs\b[^>]*\/>|<defs\b[^>]*>\s*<\/defs>/g, ''),
+    definitions
+  };
+}
+
+/**
+ * Собирает общий <defs> спрайта: одинаковые определения (с точностью до id) хранятся один раз
+ * по хешу содержимого, ссылки в символах переписываются на оставшийся id
+ */
+function createDefinitionsHoister(): { hoist: (content: string) => string; definitions: string[] } {
+  const definitions: string[] = [];
+  const idsByHash = new Map<string, string>();
+  
+  function hoist(content: string): string {
+    const extracted = extractSVGDefinitions(content);
+    const rename = new Map<string, string>();
+    const kept: string[] = [];
+    
+    for (const definition of extracted.definitions) {
+      // Хеш без собственного id: градиенты home__a и user__a с одинаковыми стопами совпадают
+      const normalized = renameSVGIds(definition.markup, new Map([[definition.id, '']]));
+      const hash = createHash('md5').update(normalized).digest('hex');
+      const existingId = idsByHash.get(hash);
+      if (existingId !== undefined) {
+        rename.set(definition.id, existingId);
+      } else {
+        idsByHash.set(hash, definition.id);
+        kept.push(definition.markup);
+      }
+    }
+    
+    // Ссылки на удаленные дубликаты есть и в символе, и в оставшихся определениях этой иконки
+    for (const markup of kept) {
+      definitions.push(rename.size > 0 ? renameSVGIds(markup, rename) : markup);
+    }
+    return rename.size > 0 ? renameSVGIds(extracted.content, rename) : extracted.content;
+  }
+  
+  return { hoist, definitions };
+}
+
+/**
+ * Разбирает корневой <svg>, санитизирует и оптимизирует иконку SVGO
+ * Не зависит от состояния плагина: выполняется и в основном потоке, и в worker пула
+ */
+function processSVGSource(source: string, settings: SVGProcessSettings, svgo: { optimize: (svg: string, config?: any) => OptimizeResult } | null): ProcessedSVG {
+  // Корневой <svg> и его viewBox (вложенные <svg> не обрывают иконку),
+  // без viewBox он строится из width/height
+  const svgDocument = parseSVGDocument(source);
+  const viewBox = resolveViewBox(svgDocument.attributes) || '0 0 24 24';
+  
+  let content = svgDocument.content;
+  let violations: SanitizeViolation[] = [];
+  
+  if (settings.sanitizePolicy) {
+    ({ content, violations } = sanitizeSVGContent(content, settings.sanitizePolicy));
+  }
+  
+  // Цвета исходной иконки: в стратегии 'mono' SVGO сводит их к currentColor (плагин предупреждает о нескольких)
+  const colors = collectSVGColors(content, svgDocument.attributes);
+  
+  let optimization: ProcessedSVG['optimization'] = null;
+  let optimizationError: string | null = null;
+  
+  if (svgo && settings.svgoConfig) {
+    const wrappedSvg = `<svg${formatAttributes({ viewBox })}>${content}</svg>`;
+    try {
+      const optimized = svgo.optimize(wrappedSvg, settings.svgoConfig).data;
+      content = parseSVGDocument(optimized).content;
+      optimization = { originalSize: Buffer.byteLength(wrappedSvg), optimizedSize: Buffer.byteLength(optimized) };
+    } catch (error) {
+      optimizationError = (error as Error).message;
+    }
+  }
+  
+  // 🎨 После SVGO: var() в атрибутах он не разбирает
+  let attributes = svgDocument.attributes;
+  if (settings.colors === 'variables') {
+    ({ content, attributes } = replaceSVGColors(content, attributes));
+  } else if (settings.colors === 'mono' && optimization) {
+    // SVGO видит только содержимое: цвета корневого <svg>, переносимые на <symbol>, сводятся к currentColor здесь
+    // (без SVGO иконка в 'mono' не меняется - и корень тоже)
+    ({ attributes } = mapSVGColors('', attributes, () => 'currentColor'));
+  }
+  
+  return { viewBox, content, attributes, colors, violations, optimization, optimizationError };
+}
+
+/**
+ * 🧵 Пул worker_threads для разбора SVG (опция workers)
+ * Worker - этот же модуль (startSVGWorker), запускаются по мере надобности, не больше size;
+ * каждый разбирает одну иконку за раз, остальные ждут в очереди
+ */
+function createSVGWorkerPool(size: number): SVGWorkerPool {
+  type Job = { task: Parameters<SVGWorkerPool['run']>[0]; resolve: (message: SVGWorkerMessage) => void; reject: (error: Error) => void };
+  const workers: Worker[] = [];
+  const idle: Worker[] = [];
+  const queue: Job[] = [];
+  const running = new Map<Worker, Job>();
+  let failure: Error | null = null;
+  
+  // Worker не запустился или упал: задачи отклоняются, плагин разбирает их в основном потоке
+  const fail = (error: Error): Promise<unknown> => {
+    if (failure) {
+      return Promise.resolve();
+    }
+    failure = error;
+    for (const job of [...running.values(), ...queue]) {
+      job.reject(error);
+    }
+    running.clear();
+    queue.length = 0;
+    return Promise.all(workers.map(worker => worker.terminate()));
+  };
+  
+  const spawn = (): void => {
+    const worker = new Worker(new URL(import.meta.url), { workerData: { [SVG_WORKER_FLAG]: true } });
+    // Простаивающий worker не удерживает процесс
+    worker.unref();
+    worker.on('message', (message: SVGWorkerMessage) => {
+      const job = running.get(worker);
+      running.delete(worker);
+      worker.unref();
+      idle.push(worker);
+      job?.resolve(message);
+      dispatch();
+    });
+    worker.on('error', fail);
+    worker.on('exit', (code) => fail(new Error(`SVG worker exited with code ${code}`)));
+    workers.push(worker);
+    idle.push(worker);
+  };
+  
+  const dispatch = (): void => {
+    while (!failure && queue.length > 0) {
+      if (idle.length === 0 && workers.length < size) {
+        try {
+          spawn();
+        } catch (error) {
+          fail(error as Error);
+          return;
+        }
+      }
+      
+      const worker = idle.pop();
+      if (!worker) {
+        return;
+      }
+      
+      const job = queue.shift()!;
+      try {
+        worker.postMessage(job.task);
+      } catch (error) {
+        // Задачу нельзя передать в worker (например, функции в svgoConfig)
+        idle.push(worker);
+        job.reject(error as Error);
+        continue;
+      }
+      running.set(worker, job);
+      worker.ref();
+    }
+  };
+  
+  return {
+    run(task) {
+      if (failure) {
+        return Promise.reject(failure);
+      }
+      return new Promise<SVGWorkerMessage>((resolve, reject) => {
+        queue.push({ task, resolve, reject });
+        dispatch();
+      });
+    },
+    async close() {
+      await fail(new Error('SVG worker pool is closed'));
+    }
+  };
+}
+
+/**
+ * 🧵 Точка входа worker пула: разбирает задачи { source, settings } через processSVGSource
+ */
+function startSVGWorker(): void {
+  let svgoLoading: Promise<any> | null = null;
+  
+  parentPort!.on('message', async ({ source, settings }: { source: string; settings: SVGProcessSettings }) => {
+    try {
+      if (settings.svgoConfig && !svgoLoading) {
+        svgoLoading = import('svgo');
+      }
+      const svgo = settings.svgoConfig ? await svgoLoading : null;
+      parentPort!.postMessage({ result: processSVGSource(source, settings, svgo) });
+    } catch (error) {
+      parentPort!.postMessage({ error: (error as Error).message });
+    }
+  });
+}
+
+/**
+ * Генерирует тег <symbol> из SVG контента (с атрибутами корневого <svg>)
+ * @security Экранирует специальные символы в ID для предотвращения XSS
+ */
+function generateSymbol(id: string, content: string, viewBox: string, attributes: Record<string, string> = {}): string {
+  const safeId = id.replace(/[<>"'&]/g, (char) => {
+    const entities: Record<string, string> = {
+      '<': '&lt;',
+      '>': '&gt;',
+      '"': '&quot;',
+      "'": '&#39;',
+      '&': '&amp;'
+    };
+    return entities[char] || char;
+  });
+  
+  return `<symbol id="${safeId}"${formatAttributes({ viewBox, ...attributes })}>${content}</symbol>`;
+}
+
+// Firefox и Safari не рисуют градиенты, фильтры и маски из спрайта с display: none,
+// поэтому спрайт с общим <defs> уводится за экран
+const HIDDEN_SPRITE_STYLE = 'display: none;';
+const OFFSCREEN_SPRITE_STYLE = 'position: absolute; width: 0; height: 0; overflow: hidden;';
+
+/**
+ * Генерирует финальный SVG спрайт (definitions - общий <defs> спрайта при hoistDefs)
+ */
+function generateSprite(
+  symbols: string[],
+  options: Pick<ResolvedSpriteConfig, 'spriteId' | 'spriteClass'>,
+  definitions: string[] = []
+): string {
+  const children = definitions.length > 0 ? [`<defs>${definitions.join('')}</defs>`, ...symbols] : symbols;
+  const symbolsHtml = children.length > 0 ? `\n  ${children.join('\n  ')}\n` : '';
+  const style = definitions.length > 0 ? OFFSCREEN_SPRITE_STYLE : HIDDEN_SPRITE_STYLE;
+  return `<svg id="${options.spriteId}" class="${options.spriteClass}" style="${style}">${symbolsHtml}</svg>`;
+}
+
+/**
+ * Содержимое спрайта без внешнего <svg> (символы могут содержать вложенные <svg>)
+ */
+function getSpriteInner(sprite: string): string {
+  return sprite.trim().replace(/^<svg[^>]*>/, '').replace(/<\/svg>$/, '').trim();
+}
+
+/**
+ * Подсчитывает количество иконок в спрайте
+ */
+function getIconCount(sprite: string): number {
+  return (sprite.match(/<symbol/g) || []).length;
+}
+
+/**
+ * Генерирует самостоятельный SVG документ спрайта для внешнего файла
+ * В отличие от inline спрайта не содержит display: none (иначе внешние
+ * ссылки <use href="sprite.svg#id"> не отрисуются) и объявляет namespace
+ */
+function generateSpriteFile(sprite: string): string {
+  const spriteInner = getSpriteInner(sprite);
+  return (
+    '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">' +
+    `\n  ${spriteInner}\n</svg>\n`
+  );
+}
+
+/**
+ * Размеры иконки из viewBox (для раскладки view спрайта, при некорректном viewBox 24x24)
+ */
+function parseViewBoxSize(viewBox: string): { width: number; height: number } {
+  const [, , width, height] = viewBox.trim().split(/[\s,]+/).map(Number);
+  return {
+    width: width > 0 ? width : 24,
+    height: height > 0 ? height : 24
+  };
+}
+
+/**
+ * Генерирует файл stack спрайта: каждая иконка - вложенный <svg id>,
+ * видна только иконка из фрагмента URL (sprite.svg#home → :target)
+ */
+function generateStackSpriteFile(icons: Array<{ id: string } & ParsedSVG>): string {
+  const items = icons.map(icon => `\n  <svg id="${icon.id}"${formatAttributes({ viewBox: icon.viewBox, ...icon.attributes })}>${icon.content}</svg>`);
+  return (
+    '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">' +
+    '\n  <style>:root>svg{display:none}:root>svg:target{display:inline}</style>' +
+    `${items.join('')}\n</svg>\n`
+  );
+}
+
+/**
+ * Генерирует файл view спрайта: иконки разложены по сетке,
+ * фрагмент URL (sprite.svg#home) - это <view> с viewBox ячейки иконки
+ */
+function generateViewSpriteFile(icons: Array<{ id: string } & ParsedSVG>): string {
+  const sizes = icons.map(icon => parseViewBoxSize(icon.viewBox));
+  const columns = Math.max(1, Math.ceil(Math.sqrt(icons.length)));
+  const rows = Math.ceil(icons.length / columns);
+  const cellWidth = Math.max(0, ...sizes.map(size => size.width)) + VIEW_SPRITE_GAP;
+  const cellHeight = Math.max(0, ...sizes.map(size => size.height)) + VIEW_SPRITE_GAP;
+  
+  const items = icons.map((icon, index) => {
+    const { width, height } = sizes[index];
+    const x = (index % columns) * cellWidth;
+    const y = Math.floor(index / columns) * cellHeight;
+    return (
+      `\n  <view id="${icon.id}" viewBox="${x} ${y} ${width} ${height}"/>` +
+      `\n  <svg x="${x}" y="${y}" width="${width}" height="${height}"${formatAttributes({ viewBox: icon.viewBox, ...icon.attributes })}>` +
+      `${icon.content}</svg>`
+    );
+  });
+  
+  return (
+    '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ' +
+    `viewBox="0 0 ${columns * cellWidth} ${rows * cellHeight}">${items.join('')}\n</svg>\n`
+  );
+}
+
+/**
+ * Генерирует хеш на основе содержимого (используется в имени файла спрайта)
+ */
+function generateContentHash(content: string): string {
+  return createHash('md5').update(content).digest('hex').substring(0, 8);
+}
+
+/**
+ * Кодирует иконку в data URI для CSS (экранируются только небезопасные для url("...") символы)
+ */
+function generateSvgDataUri(content: string, viewBox: string, attributes: Record<string, string> = {}): string {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg"${formatAttributes({ viewBox, ...attributes })}>${content}</svg>`;
+  const encoded = svg.replace(/[\r\n%#()<>?[\\\]^`{|}"]/g, (char) => {
+    return `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`;
+  });
+  return `data:image/svg+xml,${encoded}`;
+}
+
+/**
+ * Генерирует stylesheet: custom property в :root и класс с background-image на каждую иконку
+ */
+function generateSpriteCss(icons: Array<{ id: string; dataUri: string }>, prefix: string): string {
+  if (icons.length === 0) {
+    return '';
+  }
+  
+  const properties = icons.map(icon => `  --${prefix}${icon.id}: url("${icon.dataUri}");`);
+  const classes = icons.map(icon => `.${prefix}${icon.id} {\n  background-image: var(--${prefix}${icon.id});\n}`);
+  
+  return [':root {', ...properties, '}', '', ...classes, ''].join('\n');
+}
+
+/**
+ * Данные спрайта, экспортируемые виртуальным модулем virtual:svg-sprite
+ */
+interface VirtualModuleData {
+  spriteId: string;
+  /** ID символов (плейсхолдер до сборки при tree-shaking) */
+  iconIds: string[] | string;
+  sprite: string;
+  /** URL файла спрайта ('' в режиме inline) */
+  spriteUrl: string;
+  /** Данные каждого спрайта по имени */
+  sprites?: Record<string, Omit<VirtualModuleData, 'sprites'>>;
+}
+
+/**
+ * Код виртуального модуля virtual:svg-sprite/client (HMR клиент)
+ * Обновляет спрайт в DOM по событию svg-sprite-update и вызывает подписчиков onSpriteUpdate
+ */
+const CLIENT_MODULE_CODE = `
+const listeners = new Set();
+
+/**
+ * Подписка на HMR обновления спрайта (вызывается после обновления спрайта в DOM)
+ * @returns {() => void} отписка
+ */
+export function onSpriteUpdate(callback) {
+  listeners.add(callback);
+  return () => {
+    listeners.delete(callback);
+  };
+}
+
+// Заменяет, добавляет и удаляет <symbol> гранулярного обновления (false - XML не разобран)
+const patchSprite = (sprite, data) => {
+  const updates = data.added.concat(data.changed);
+  const doc = new DOMParser().parseFromString(
+    '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">' +
+      updates.map(update => update.symbol).join('') + '</svg>',
+    'image/svg+xml'
+  );
+
+  const parserError = doc.querySelector('parsererror');
+  if (parserError) {
+    console.error('❌ Invalid SVG XML received:', parserError.textContent);
+    return false;
+  }
+
+  const findSymbol = (id) => Array.from(sprite.children).find(child => child.id === id);
+  data.removed.forEach(id => findSymbol(id)?.remove());
+
+  Array.from(doc.documentElement.children).forEach(symbol => {
+    const node = document.importNode(symbol, true);
+    const existing = findSymbol(symbol.id);
+    if (existing) {
+      existing.replaceWith(node);
+    } else {
+      sprite.appendChild(node);
+    }
+  });
+  return true;
+};
+
+// Перерисовывает только <use>, ссылающиеся на обновленные символы
+const refreshUses = (ids) => {
+  document.querySelectorAll('use').forEach(use => {
+    const attribute = use.hasAttribute('href') ? 'href' : 'xlink:href';
+    const href = use.getAttribute(attribute) || '';
+    if (!ids.has(href.slice(href.lastIndexOf('#') + 1))) {
+      return;
+    }
+
+    use.removeAttribute(attribute);
+    requestAnimationFrame(() => {
+      if (attribute === 'href') {
+        use.setAttribute('href', href);
+      } else {
+        use.setAttributeNS('http://www.w3.org/1999/xlink', 'xlink:href', href);
+      }
+    });
+  });
+};
+
+// Полное обновление: содержимое спрайта заменяется целиком
+const replaceSprite = (oldSprite, spriteContent) => {
+  // ✅ БЕЗОПАСНО: Используем DOMParser вместо innerHTML для защиты от XSS
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(spriteContent, 'image/svg+xml');
+
+  // Проверяем на ошибки парсинга XML
+  const parserError = doc.querySelector('parsererror');
+  if (parserError) {
+    console.error('❌ Invalid SVG XML received:', parserError.textContent);
+    return;
+  }
+
+  const newSprite = doc.documentElement;
+
+  // Дополнительная валидация: убеждаемся что это действительно SVG
+  if (!newSprite || newSprite.tagName.toLowerCase() !== 'svg') {
+    console.error('❌ Expected <svg> root element, got:', newSprite?.tagName);
+    return;
+  }
+
+  // Безопасное обновление: берем innerHTML из валидированного элемента
+  // Данные уже прошли валидацию через DOMParser, поэтому безопасно
+  oldSprite.innerHTML = newSprite.innerHTML;
+
+  // Принудительно обновляем все <use> элементы с более агрессивным подходом
+  const useElements = document.querySelectorAll('use[href^="#"]');
+
+  // Сохраняем все href
+  const hrefs = Array.from(useElements).map(use => ({
+    element: use,
+    href: use.getAttribute('href'),
+    parentSVG: use.closest('svg')
+  }));
+
+  // Сбрасываем все href
+  hrefs.forEach(({ element }) => {
+    element.removeAttribute('href');
+  });
+
+  // Принудительная перерисовка через тройной RAF + явный reflow
+  requestAnimationFrame(() => {
+    // Принудительный reflow
+    document.body.offsetHeight;
+
+    requestAnimationFrame(() => {
+      // Восстанавливаем href
+      hrefs.forEach(({ element, href, parentSVG }) => {
+        if (href) {
+          element.setAttribute('href', href);
+          // Принудительный reflow для каждого SVG родителя
+          if (parentSVG) {
+            parentSVG.style.display = 'none';
+            parentSVG.offsetHeight; // Trigger reflow
+            parentSVG.style.display = '';
+          }
+        }
+      });
+
+      requestAnimationFrame(() => {
+        // Финальная перерисовка
+        document.body.offsetHeight;
+      });
+    });
+  });
+};
+
+if (import.meta.hot) {
+  import.meta.hot.on('svg-sprite-update', (data) => {
+    console.log('🔄 HMR: Updating SVG sprite...', data);
+
+    // Спрайт может отсутствовать в DOM (SSR, Storybook, micro-frontends) - тогда только уведомляем подписчиков
+    const sprite = typeof document === 'undefined' ? null : document.getElementById(data.spriteId);
+
+    if (sprite) {
+      try {
+        if (data.spriteContent !== undefined) {
+          replaceSprite(sprite, data.spriteContent);
+        } else if (patchSprite(sprite, data)) {
+          // ✅ Гранулярное обновление: заменены только <symbol> измененных иконок
+          refreshUses(new Set(data.added.concat(data.changed).map(update => update.id)));
+        } else {
+          location.reload();
+          return;
+        }
+        console.log('✅ HMR: Sprite updated with ' + data.iconCount + ' icons');
+      } catch (error) {
+        console.error('HMR: Failed to update sprite:', error);
+      }
+    }
+
+    listeners.forEach(callback => callback(data));
+  });
+
+  console.log('🎨 SVG Sprite HMR: Ready');
+}
+`;
+
+/**
+ * Генерирует код виртуального модуля virtual:svg-sprite
+ */
+function generateVirtualModuleCode({ spriteId, iconIds, sprite, spriteUrl, sprites = {} }: VirtualModuleData): string {
+  return [
+    `export const spriteId = ${JSON.stringify(spriteId)};`,
+    `export const iconIds = Object.freeze(${JSON.stringify(iconIds)});`,
+    `export const sprite = ${JSON.stringify(sprite)};`,
+    `export const spriteUrl = ${JSON.stringify(spriteUrl)};`,
+    `export const sprites = Object.freeze(${JSON.stringify(sprites)});`,
+    'export default { spriteId, iconIds, sprite, spriteUrl, sprites };',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Данные спрайта для virtual:svg-sprite/ssr
+ */
+interface SsrSpriteData {
+  name: string;
+  /** Открывающий тег <svg> спрайта */
+  open: string;
+  /** Общий <defs> (hoistDefs) или '' */
+  defs: string;
+  /** ID символа и его разметка */
+  symbols: Array<[string, string]>;
+}
+
+/**
+ * Генерирует код виртуального модуля virtual:svg-sprite/ssr
+ * (renderSprite() собирает ту же разметку, что transformIndexHtml инжектит в index.html)
+ */
+function generateSsrModuleCode(sprites: SsrSpriteData[]): string {
+  return `const sprites = ${JSON.stringify(sprites)};
+
+export function renderSprite(options = {}) {
+  const icons = options.icons ? new Set(options.icons) : null;
+  
+  return sprites
+    .filter(sprite => !options.name || sprite.name === options.name)
+    .map(sprite => {
+      const symbols = sprite.symbols.filter(([id]) => !icons || icons.has(id)).map(([, symbol]) => symbol);
+      if (icons && symbols.length === 0) {
+        return '';
+      }
+      const children = sprite.defs ? [sprite.defs, ...symbols] : symbols;
+      return sprite.open + children.join('\\n  ') + '</svg>';
+    })
+    .join('');
+}
+
+export default renderSprite;
+`;
+}
+
+/**
+ * Генерирует код виртуального модуля virtual:svg-sprite/shadow
+ * (adoptSprite() добавляет копию спрайта в ShadowRoot, при HMR модуль обновляет все копии)
+ */
+function generateShadowModuleCode(sprites: Record<string, string>): string {
+  return `const sprites = ${JSON.stringify(sprites)};
+
+// Состояние переживает HMR: новая версия модуля перерисовывает спрайты, добавленные предыдущей
+const state = import.meta.hot?.data.state || { sprites, parsed: new Map(), adopted: new Set() };
+
+const getParsedSprite = (name) => {
+  if (!state.parsed.has(name)) {
+    // HTML парсер <template> создает <svg> и <symbol> в SVG namespace
+    const template = document.createElement('template');
+    template.innerHTML = state.sprites[name];
+    state.parsed.set(name, template.content.firstElementChild);
+  }
+  return state.parsed.get(name);
+};
+
+// Копия спрайта со всеми символами или только с запрошенными (<defs> сохраняется)
+const cloneSprite = (sprite, icons) => {
+  if (!icons) {
+    return sprite.cloneNode(true);
+  }
+
+  const clone = sprite.cloneNode(false);
+  Array.from(sprite.children).forEach(child => {
+    if (child.tagName.toLowerCase() !== 'symbol' || icons.has(child.id)) {
+      clone.appendChild(child.cloneNode(true));
+    }
+  });
+  return clone;
+};
+
+const render = (entry) => {
+  const element = cloneSprite(getParsedSprite(entry.name), entry.icons);
+  if (entry.element) {
+    entry.element.replaceWith(element);
+  } else {
+    entry.root.prepend(element);
+  }
+  entry.element = element;
+};
+
+// Перерисовывает <use> root после замены спрайта
+const refreshUses = (root) => {
+  root.querySelectorAll('use').forEach(use => {
+    const attribute = use.hasAttribute('href') ? 'href' : 'xlink:href';
+    const href = use.getAttribute(attribute) || '';
+    if (!href.startsWith('#')) {
+      return;
+    }
+
+    use.removeAttribute(attribute);
+    requestAnimationFrame(() => {
+      if (attribute === 'href') {
+        use.setAttribute('href', href);
+      } else {
+        use.setAttributeNS('http://www.w3.org/1999/xlink', 'xlink:href', href);
+      }
+    });
+  });
+};
+
+/**
+ * Добавляет спрайт в ShadowRoot (<use href="#id"> не видит спрайт документа)
+ * @param {ParentNode} root - shadow root компонента
+ * @param {{ icons?: Iterable<string>, name?: string }} [options] - только эти символы / только этот спрайт
+ * @returns {() => void} удаляет спрайт из root
+ */
+export function adoptSprite(root, options = {}) {
+  const names = options.name ? [options.name] : Object.keys(state.sprites);
+  const icons = options.icons ? new Set(options.icons) : null;
+
+  names.forEach(name => {
+    if (!state.sprites[name]) {
+      throw new Error('[vite-svg-sprite-generator-plugin] Unknown sprite "' + name + '"');
+    }
+  });
+
+  const entries = names.map(name => {
+    const entry = { root, name, icons, element: null };
+    render(entry);
+    state.adopted.add(entry);
+    return entry;
+  });
+
+  return () => {
+    entries.forEach(entry => {
+      state.adopted.delete(entry);
+      entry.element.remove();
+    });
+  };
+}
+
+export default adoptSprite;
+
+if (import.meta.hot) {
+  import.meta.hot.data.state = state;
+  import.meta.hot.accept();
+
+  // Модуль перезагружен с новыми иконками: разбираем спрайты заново и обновляем все roots
+  if (state.sprites !== sprites) {
+    state.sprites = sprites;
+    state.parsed.clear();
+    state.adopted.forEach(render);
+    new Set(Array.from(state.adopted, entry => entry.root)).forEach(refreshUses);
+  }
+}
+`;
+}
+
+/**
+ * Генерирует общий код Icon компонентов: ссылка на символ и атрибуты доступности
+ */
+function generateIconRuntimeCode(external: boolean): string {
+  return `import { sprites } from '${VIRTUAL_MODULE_ID}';
+
+const external = ${external};
+
+// #id или URL внешнего файла спрайта, в котором есть иконка (output: 'file')
+function getIconHref(name) {
+  const sprite = external ? Object.values(sprites).find(sprite => sprite.iconIds.includes(name)) : null;
+  return sprite ? sprite.spriteUrl + '#' + name : '#' + name;
+}
+
+// С title иконка подписана для скринридеров, без него - декоративная
+function getIconAttributes(title) {
+  return title ? { role: 'img' } : { 'aria-hidden': 'true', focusable: 'false' };
+}`;
+}
+
+/**
+ * Генерирует код виртуального модуля Icon компонента virtual:svg-sprite/react | vue | svelte
+ * (для Svelte - реэкспорт компонента SVELTE_ICON_MODULE_ID)
+ */
+function generateIconComponentCode(framework: IconComponentFramework, external: boolean): string {
+  const runtime = generateIconRuntimeCode(external);
+  
+  if (framework === 'react') {
+    return `import { createElement } from 'react';
+${runtime}
+
+export function Icon({ name, size = '1em', title, ...props }) {
+  return createElement(
+    'svg',
+    { width: size, height: size, ...getIconAttributes(title), ...props },
+    title ? createElement('title', null, title) : null,
+    createElement('use', { href: getIconHref(name) })
+  );
+}
+
+export default Icon;
+`;
+  }
+  
+  if (framework === 'vue') {
+    return `import { defineComponent, h } from 'vue';
+${runtime}
+
+export const Icon = defineComponent({
+  name: 'SvgSpriteIcon',
+  props: {
+    name: { type: String, required: true },
+    size: { type: [Number, String], default: '1em' },
+    title: { type: String, default: undefined }
+  },
+  setup(props) {
+    return () => h('svg', { width: props.size, height: props.size, ...getIconAttributes(props.title) }, [
+      props.title ? h('title', props.title) : null,
+      h('use', { href: getIconHref(props.name) })
+    ]);
+  }
+});
+
+export default Icon;
+`;
+  }
+  
+  return `export { default as Icon, default } from '${SVELTE_ICON_MODULE_ID}';\n`;
+}
+
+/**
+ * Генерирует исходный код Svelte компонента Icon (синтаксис Svelte 4, работает и в Svelte 5)
+ */
+function generateSvelteIconCode(external: boolean): string {
+  return `<script>
+${generateIconRuntimeCode(external)}
+
+export let name;
+export let size = '1em';
+export let title = undefined;
+</script>
+
+<svg width={size} height={size} {...getIconAttributes(title)} {...$$restProps}>{#if title}<title>{title}</title>{/if}<use href={getIconHref(name)} /></svg>
+`;
+}
+
+/**
+ * Генерирует код модуля отдельной иконки (home.svg?symbol)
+ * Всегда экспортирует id, viewBox, url и svg (самостоятельный <svg> иконки), по умолчанию -
+ * дескриптор { id, viewBox, url }, строку svg или компонент
+ */
+function generateSymbolModuleCode({ id, viewBox, url, content, attributes }: SymbolModuleData, format: SymbolImportFormat): string {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg"${formatAttributes({ viewBox, ...attributes })}>${content}</svg>`;
+  const exports = [
+    `export const id = ${JSON.stringify(id)};`,
+    `export const viewBox = ${JSON.stringify(viewBox)};`,
+    `export const url = ${JSON.stringify(url)};`,
+    `export const svg = ${JSON.stringify(svg)};`
+  ].join('\n');
+  
+  if (format === '') {
+    return `${exports}\nexport default Object.freeze({ id, viewBox, url });\n`;
+  }
+  if (format === 'svg') {
+    return `${exports}\nexport default svg;\n`;
+  }
+  
+  // Компонент рендерит иконку целиком, без спрайта (shadow DOM, письма)
+  // React ожидает имена SVG атрибутов в camelCase: stroke-width → strokeWidth
+  const rootAttributes = format === 'react'
+    ? Object.fromEntries(Object.entries(attributes).map(([name, value]) => [
+      /^(?:aria|data)-/.test(name) ? name : name.replace(/[-:]([a-z])/g, (_, char) => char.toUpperCase()),
+      value
+    ]))
+    : attributes;
+  
+  const runtime = `${exports}
+
+const attributes = ${JSON.stringify({ xmlns: 'http://www.w3.org/2000/svg', viewBox, ...rootAttributes })};
+const content = ${JSON.stringify(content)};
+
+// С title иконка подписана для скринридеров, без него - декоративная
+function getIconAttributes(title) {
+  return title ? { role: 'img' } : { 'aria-hidden': 'true', focusable: 'false' };
+}
+
+function getInnerHTML(title) {
+  const escaped = String(title).replace(/&/g, '&amp;').replace(/</g, '&lt;');
+  return (title ? '<title>' + escaped + '</title>' : '') + content;
+}`;
+  
+  if (format === 'react') {
+    return `import { createElement } from 'react';
+${runtime}
+
+export default function SymbolIcon({ size = '1em', title, ...props }) {
+  return createElement('svg', {
+    ...attributes,
+    width: size,
+    height: size,
+    ...getIconAttributes(title),
+    ...props,
+    dangerouslySetInnerHTML: { __html: getInnerHTML(title) }
+  });
+}
+`;
+  }
+  
+  return `import { defineComponent, h } from 'vue';
+${runtime}
+
+export default defineComponent({
+  name: 'SvgSpriteSymbol',
+  props: {
+    size: { type: [Number, String], default: '1em' },
+    title: { type: String, default: undefined }
+  },
+  setup(props) {
+    return () => h('svg', {
+      ...attributes,
+      width: props.size,
+      height: props.size,
+      ...getIconAttributes(props.title),
+      innerHTML: getInnerHTML(props.title)
+    });
+  }
+});
+`;
+}
+
+/**
+ * Генерирует строки union типа из ID иконок ('never' для пустого набора)
+ */
+function generateUnionLines(iconIds: string[], indent: string): string[] {
+  if (iconIds.length === 0) {
+    return [`${indent}never`];
+  }
+  return iconIds.map(iconId => `${indent}| '${iconId}'`);
+}
+
+/**
+ * Генерирует содержимое .d.ts файла с union типом ID иконок
+ * При нескольких спрайтах дополнительно генерирует ID иконок каждого спрайта
+ */
+function generateIconTypes(iconIds: string[], spriteIconIds: Record<string, string[]> | null = null): string {
+  const lines = ['// Auto-generated by vite-svg-sprite-generator-plugin. Do not edit.', ''];
+  
+  if (iconIds.length === 0) {
+    lines.push('export type IconName = never;');
+  } else {
+    lines.push('export type IconName =');
+    iconIds.forEach((iconId, index) => {
+      lines.push(`  | '${iconId}'${index === iconIds.length - 1 ? ';' : ''}`);
+    });
+  }
+  
+  if (spriteIconIds) {
+    lines.push('', 'export interface SpriteIconNames {');
+    for (const [name, ids] of Object.entries(spriteIconIds)) {
+      const unionLines = generateUnionLines(ids, '    ');
+      lines.push(`  '${name}':`, ...unionLines.slice(0, -1), `${unionLines[unionLines.length - 1]};`);
+    }
+    lines.push('}');
+  }
+  
+  // Реестр для Icon компонентов virtual:svg-sprite/react | vue | svelte (проп name)
+  lines.push('', 'declare global {', '  interface SvgSpriteIconNames {', '    name: IconName;', '  }', '}');
+  
+  lines.push('');
+  return lines.join('\n');
+}
+
+/**
+ * Записывает файл только если его содержимое изменилось
+ * (не трогает mtime и не перезапускает watchers/tsserver без необходимости)
+ * @returns true если файл был записан
+ */
+async function writeFileIfChanged(filePath: string, content: string): Promise<boolean> {
+  try {
+    if (await readFile(filePath, 'utf-8') === content) {
+      return false;
+    }
+  } catch {
+    // Файла еще нет - создадим
+  }
+  
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, content);
+  return true;
+}
+
+/**
+ * Паттерн ссылок на символы спрайта: href="#id", xlink:href="#id", href: '#id'
+ * Группы: 1 - атрибут с разделителем, 2 - кавычка, 3 - ID иконки
+ */
+const SPRITE_REFERENCE_PATTERN = /((?:xlink:)?href\s*[:=]\s*)(["'])#([a-zA-Z][\w-]*)\2/g;
+
+/**
+ * Переписывает локальные ссылки на символы (#id) на URL внешнего файла спрайта
+ * Ссылки на ID, которых нет в спрайтах (якоря и т.п.), не затрагиваются
+ * @param symbolUrls - ID символа → публичный URL файла его спрайта
+ */
+function rewriteSpriteReferences(code: string, symbolUrls: Map<string, string>): string {
+  SPRITE_REFERENCE_PATTERN.lastIndex = 0;
+  return code.replace(SPRITE_REFERENCE_PATTERN, (match, attr: string, quote: string, iconId: string) => {
+    const spriteUrl = symbolUrls.get(iconId);
+    if (!spriteUrl) {
+      return match;
+    }
+    return `${attr}${quote}${spriteUrl}#${iconId}${quote}`;
+  });
+}
+
+/**
+ * Плейсхолдер-литерал данных спрайта в коде чанка: "__VITE_SVG_SPRITE_ICONS_ui__"
+ * Группы: 1 - кавычка, 2 - плейсхолдер
+ */
+const SPRITE_PLACEHOLDER_LITERAL_PATTERN = /(["'`])(__VITE_SVG_SPRITE_[A-Z]+(?:_[\w-]+?)?__)\1/g;
+
+/**
+ * Создает плейсхолдер данных спрайта
+ * При tree-shaking спрайты собираются только в renderChunk, а HTML и модули
+ * (включая virtual:svg-sprite) трансформируются раньше - до сборки в них стоят плейсхолдеры
+ * @param kind - HTML спрайта, URL файла спрайта или ID символов
+ * @param name - имя спрайта ('' - все спрайты)
+ */
+function createSpritePlaceholder(kind: 'SPRITE' | 'URL' | 'ICONS', name = ''): string {
+  return `__VITE_SVG_SPRITE_${kind}${name ? `_${name}` : ''}__`;
+}
+
+/**
+ * Заменяет строковые литералы-плейсхолдеры в коде чанка на JSON значения
+ */
+function replaceLiteralPlaceholders(code: string, values: Map<string, unknown>): string {
+  SPRITE_PLACEHOLDER_LITERAL_PATTERN.lastIndex = 0;
+  return code.replace(SPRITE_PLACEHOLDER_LITERAL_PATTERN, (match, quote: string, placeholder: string) => {
+    return values.has(placeholder) ? JSON.stringify(values.get(placeholder)) : match;
+  });
+}
+
+/**
+ * Заменяет плейсхолдеры в тексте (HTML, URL внутри строк "URL#iconId")
+ */
+function replacePlaceholders(code: string, replacements: Map<string, string>): string {
+  // Длинные плейсхолдеры первыми: имя одного спрайта может быть префиксом другого
+  return Array.from(replacements)
+    .sort(([a], [b]) => b.length - a.length)
+    .reduce((result, [placeholder, value]) => result.split(placeholder).join(value), code);
+}
+
+/**
+ * Чанки сборки: meta.chunks в renderChunk (имена файлов еще с плейсхолдерами хешей) или бандл Rollup
+ */
+type BundleChunks = Record<string, Rollup.RenderedChunk | Rollup.OutputAsset>;
+
+/**
+ * Результат сборки спрайтов по чанкам (tree-shaking)
+ */
+interface BundleSprites {
+  // Плейсхолдеры литералов (ICONS, SPRITE) → значения, разметки спрайтов и URL файлов спрайтов
+  values: Map<string, unknown>;
+  markup: Map<string, string>;
+  urls: Map<string, string>;
+  // Имя файла lazy чанка → код, добавляющий его символы (chunkSprites)
+  chunkSprites: Map<string, string>;
+  bundledModuleIds: Set<string>;
+}
+
+/**
+ * Возвращает чанки начальной загрузки: точки входа и их статические импорты
+ */
+function getInitialChunks(chunks: BundleChunks): Set<string> {
+  const initialChunks = new Set<string>();
+  
+  const visit = (fileName: string) => {
+    const chunk = chunks[fileName];
+    if (initialChunks.has(fileName) || chunk?.type !== 'chunk') return;
+    
+    initialChunks.add(fileName);
+    chunk.imports.forEach(visit);
+  };
+  
+  for (const output of Object.values(chunks)) {
+    if (output.type === 'chunk' && output.isEntry) {
+      visit(output.fileName);
+    }
+  }
+  
+  return initialChunks;
+}
+
+/**
+ * Генерирует код, который при импорте чанка добавляет его символы в контейнер спрайта
+ * Символы, которые уже есть в документе (общие иконки нескольких чанков), пропускаются
+ */
+function generateChunkSpriteCode(spriteId: string, symbols: string, style = HIDDEN_SPRITE_STYLE): string {
+  return [
+    ';(function (spriteId, symbols, style) {',
+    "  if (typeof document === 'undefined') return;",
+    '  let sprite = document.getElementById(spriteId);',
+    '  if (!sprite) {',
+    "    sprite = document.createElementNS('http://www.w3.org/2000/svg', 'svg');",
+    '    sprite.id = spriteId;',
+    "    sprite.setAttribute('style', style);",
+    '    document.body.prepend(sprite);',
+    '  }',
+    "  const doc = new DOMParser().parseFromString('<svg xmlns=\"http://www.w3.org/2000/svg\">' + symbols + '</svg>', 'image/svg+xml');",
+    '  for (const symbol of Array.from(doc.documentElement.children)) {',
+    '    if (!document.getElementById(symbol.id)) sprite.appendChild(document.importNode(symbol, true));',
+    '  }',
+    `})(${JSON.stringify(spriteId)}, ${JSON.stringify(symbols)}, ${JSON.stringify(style)});`,
+    ''
+  ].join('\n');
+}
+
+/**
+ * Приводит опции к списку конфигураций спрайтов
+ * Без опции sprites собирается один спрайт из опций верхнего уровня,
+ * иначе недостающие поля каждого спрайта берутся из опций верхнего уровня
+ */
+function normalizeSpriteConfigs(options: Required<SvgSpriteOptions>): ResolvedSpriteConfig[] {
+  const pick = (sprite: Partial<SpriteConfig> = {}) => ({
+    iconsFolder: sprite.iconsFolder ?? options.iconsFolder,
+    idPrefix: sprite.idPrefix ?? options.idPrefix,
+    spriteClass: sprite.spriteClass ?? options.spriteClass,
+    svgoConfig: sprite.svgoConfig ?? options.svgoConfig,
+    treeShaking: sprite.treeShaking ?? options.treeShaking,
+    mode: sprite.mode ?? options.mode,
+    colors: sprite.colors ?? options.colors
+  });
+  
+  if (!options.sprites || options.sprites.length === 0) {
+    return [{ name: DEFAULT_SPRITE_NAME, spriteId: options.spriteId, ...pick() }];
+  }
+  
+  return options.sprites.map(sprite => ({
+    name: sprite.name,
+    spriteId: sprite.spriteId ?? `${options.spriteId}-${sprite.name}`,
+    ...pick(sprite)
+  }));
+}
+
+/**
+ * Создает изолированное состояние одного спрайта
+ */
+function createSpriteState(config: ResolvedSpriteConfig): SpriteState {
+  return {
+    config,
+    iconsFolder: '',
+    allSvgFiles: [],
+    svgFiles: [],
+    spriteContent: '',
+    lastHash: '',
+    symbolIds: new Set(),
+    spriteFileName: '',
+    spriteUrl: '',
+    regenerateSprite: null,
+    perPageSprites: new Map(),
+    symbolMarkup: null,
+    changedFiles: new Set()
+  };
+}
+
+/**
+ * Асинхронно рекурсивно сканирует папку и находит все SVG файлы
+ */
+async function findSVGFiles(folderPath: string, options: { verbose?: boolean } = {}): Promise<string[]> {
+  const svgFiles: string[] = [];
+  
+  // ✅ Используем async access вместо sync existsSync
+  try {
+    await access(folderPath);
+  } catch (error) {
+    console.warn(`⚠️  Icons folder not found: ${folderPath}`);
+    if (options.verbose) {
+      console.warn(`   Reason: ${(error as Error).message}`);
+      console.warn(`   Tip: Check the 'iconsFolder' option in your Vite config`);
+    }
+    return svgFiles;
+  }
+  
+  async function scanDirectory(dir: string): Promise<void> {
+    try {
+      const items = await readdir(dir, { withFileTypes: true });
+      
+      // Параллельная обработка всех элементов директории
+      await Promise.all(items.map(async (item) => {
+        // Пропускаем скрытые файлы и node_modules
+        if (item.name.startsWith('.') || item.name === 'node_modules') {
+          return;
+        }
+        
+        const fullPath = join(dir, item.name);
+        
+        if (item.isDirectory()) {
+          await scanDirectory(fullPath);
+        } else if (extname(item.name).toLowerCase() === '.svg') {
+          svgFiles.push(fullPath);
+        }
+      }));
+    } catch (error) {
+      console.error(`Failed to scan directory ${dir}:`, (error as Error).message);
+    }
+  }
+  
+  await scanDirectory(folderPath);
+  return svgFiles;
+}
+
+/**
+ * Гранулярное HMR обновление: символы измененных файлов, добавленные, измененные и удаленные с прошлой сборки
+ */
+function diffSpriteSymbols(symbolIds: string[], previous: Map<string, string>, current: Map<string, string>): SpriteSymbolsDiff {
+  const diff: SpriteSymbolsDiff = { added: [], changed: [], removed: [] };
+  
+  for (const id of new Set(symbolIds)) {
+    const symbol = current.get(id);
+    
+    if (symbol === undefined) {
+      if (previous.has(id)) {
+        diff.removed.push(id);
+      }
+    } else if (!previous.has(id)) {
+      diff.added.push({ id, symbol });
+    } else if (previous.get(id) !== symbol) {
+      diff.changed.push({ id, symbol });
+    }
+  }
+  
+  return diff;
+}
+
+/**
+ * Создает уникальный ID для символа
+ */
+function generateSymbolId(filePath: string, prefix: string): string {
+  const fileName = basename(filePath, '.svg');
+  const cleanName = fileName
+    .replace(/[^a-zA-Z0-9-_]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  
+  return prefix ? `${prefix}-${cleanName}` : cleanName;
+}
+
+/**
+ * Предкомпилированные RegExp паттерны ссылок на символы в контексте иконки
+ * Применяются к исходному тексту любого файла (HTML, строки внутри JS)
+ */
+const ICON_USAGE_PATTERNS = [
+  // HTML: <use href="#iconId"> или <use xlink:href="#iconId">
+  /<use[^>]+(?:xlink:)?href\s*=\s*["']#([a-zA-Z][\w-]*)["']/gi,
+  // JS/TS: createElement('use', { href: "#iconId" }) и аналоги
+  /["'](?:use|svg)["']\s*,\s*\{[^{}]*?(?:href|xlink:href)["']?\s*:\s*["']#([a-zA-Z][\w-]*)["']/gi
+];
+
+/**
+ * Любая ссылка href: "#iconId" или href="#iconId": учитывается в tree-shaking,
+ * но может быть якорем на странице ([{ href: '#pricing' }]) и не проверяется отчетом
+ */
+const ICON_HREF_PATTERN = /(?:href|xlink:href)\s*[:=]\s*["']#([a-zA-Z][\w-]*)["']/gi;
+
+// Фабрика JSX при разборе исходников: <Icon name="x" /> → __svgSpriteJsx(Icon, { name: "x" })
+const USAGE_JSX_FACTORY = '__svgSpriteJsx';
+const USAGE_JSX_FRAGMENT = '__svgSpriteFragment';
+
+// Атрибуты, содержащие ссылку на символ (#iconId)
+const HREF_ATTRIBUTES = ['href', 'xlink:href', 'xlinkHref'];
+
+// Блоки <script> в HTML/Vue/Svelte и блоки <style> (вырезаются из разметки)
+const SCRIPT_BLOCK_PATTERN = /<script\b([^>]*)>([\s\S]*?)<\/script>/gi;
+const STYLE_BLOCK_PATTERN = /<style\b[^>]*>[\s\S]*?<\/style>/gi;
+
+// Открывающий тег и его атрибуты (в т.ч. :prop="expr" во Vue и prop={expr} в Svelte)
+const MARKUP_TAG_PATTERN = /<([a-zA-Z][\w.:-]*)(\s(?:[^<>"'{}]|"[^"]*"|'[^']*'|\{[^{}]*\})*)?\/?>/g;
+const MARKUP_ATTRIBUTE_PATTERN = /([^\s=/>"'{}]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|\{([^{}]*)\})/g;
+
+/**
+ * Узел ESTree AST (результат parseAst)
+ */
+type AstNode = { type: string; [key: string]: any };
+
+/**
+ * Парсер исходников для поиска использования иконок
+ */
+interface UsageParser {
+  parseAst: (code: string) => AstNode;
+  transformWithEsbuild: (code: string, filename: string, options?: Record<string, unknown>) => Promise<{ code: string }>;
+}
+
+type ScriptLoader = 'js' | 'jsx' | 'ts' | 'tsx';
+
+/**
+ * Приводит опцию usage к полному виду
+ */
+function normalizeUsageOptions(usage: UsageOptions = {}): Required<UsageOptions> {
+  return {
+    components: usage.components ?? [],
+    helpers: usage.helpers ?? [],
+    properties: usage.properties ?? [],
+    safelist: usage.safelist ?? [],
+    extractors: usage.extractors ?? []
+  };
+}
+
+/**
+ * Приводит имя компонента/атрибута к виду для сравнения
+ * (<app-icon icon-name> во Vue шаблонах совпадает с AppIcon и iconName)
+ */
+function normalizeUsageName(name: string): string {
+  return name.replace(/-/g, '').toLowerCase();
+}
+
+/**
+ * Загружает парсер и esbuild трансформацию из Vite
+ * parseAst доступен начиная с Vite 5, в Vite 4 используются только RegExp паттерны
+ */
+async function loadUsageParser(): Promise<UsageParser | null> {
+  try {
+    const vite: Record<string, any> = await import('vite');
+    if (typeof vite.parseAst !== 'function' || typeof vite.transformWithEsbuild !== 'function') {
+      return null;
+    }
+    return { parseAst: vite.parseAst, transformWithEsbuild: vite.transformWithEsbuild };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Обходит ESTree дерево в глубину
+ */
+function walkAst(node: AstNode, visit: (node: AstNode) => void): void {
+  visit(node);
+  
+  for (const key of Object.keys(node)) {
+    const value = node[key];
+    if (Array.isArray(value)) {
+      for (const child of value) {
+        if (child && typeof child.type === 'string') {
+          walkAst(child, visit);
+        }
+      }
+    } else if (value && typeof value.type === 'string') {
+      walkAst(value, visit);
+    }
+  }
+}
+
+/**
+ * Возвращает статические строковые значения выражения
+ * 'home' → ['home'], cond ? 'a' : 'b' → ['a', 'b'], ['a', 'b'] → ['a', 'b']
+ */
+function collectStringValues(node: AstNode | null | undefined): string[] {
+  if (!node) {
+    return [];
+  }
+  
+  switch (node.type) {
+    case 'Literal':
+      return typeof node.value === 'string' ? [node.value] : [];
+    case 'TemplateLiteral':
+      return node.expressions.length === 0 ? [node.quasis[0].value.cooked] : [];
+    case 'ConditionalExpression':
+      return [...collectStringValues(node.consequent), ...collectStringValues(node.alternate)];
+    case 'LogicalExpression':
+      return [...collectStringValues(node.left), ...collectStringValues(node.right)];
+    case 'ArrayExpression':
+      return node.elements.flatMap((element: AstNode | null) => collectStringValues(element));
+    default:
+      return [];
+  }
+}
+
+/**
+ * Возвращает имя узла: Icon, UI.Icon, icons.get или 'use' для строковых тегов
+ */
+function getAstNodeName(node: AstNode | null | undefined): string | null {
+  if (!node) {
+    return null;
+  }
+  if (node.type === 'Identifier') {
+    return node.name;
+  }
+  if (node.type === 'Literal' && typeof node.value === 'string') {
+    return node.value;
+  }
+  if (node.type === 'MemberExpression' && !node.computed) {
+    const objectName = getAstNodeName(node.object);
+    return objectName ? `${objectName}.${node.property.name}` : null;
+  }
+  return null;
+}
+
+/**
+ * Возвращает ключ свойства объекта ({ name: ... }, { 'xlink:href': ... })
+ */
+function getPropertyKey(property: AstNode): string | null {
+  if (property.computed) {
+    return null;
+  }
+  return getAstNodeName(property.key);
+}
+
+/**
+ * Добавляет ID иконок из ссылок вида "#iconId"
+ */
+function addHrefUsages(values: string[], usedIds: Set<string>): void {
+  for (const value of values) {
+    if (value.startsWith('#')) {
+      usedIds.add(value.slice(1));
+    }
+  }
+}
+
+/**
+ * Находит использование иконок в AST: пары компонент/проп, вызовы хелперов,
+ * свойства объектов и href атрибуты
+ */
+function collectAstUsages(ast: AstNode, usage: Required<UsageOptions>, usedIds: Set<string>): void {
+  const helpers = new Set(usage.helpers);
+  const properties = new Set(usage.properties.map(normalizeUsageName));
+  
+  walkAst(ast, (node) => {
+    if (node.type === 'CallExpression') {
+      // Хелперы: icon('home'), icons.get('home')
+      const calleeName = getAstNodeName(node.callee);
+      if (calleeName && helpers.has(calleeName)) {
+        node.arguments.forEach((arg: AstNode) => collectStringValues(arg).forEach(id => usedIds.add(id)));
+      }
+      
+      // Создание элемента: JSX, h(Icon, {...}), createElement(Icon, {...}), jsx(Icon, {...})
+      const [type, props] = node.arguments as AstNode[];
+      const componentName = getAstNodeName(type);
+      if (!componentName || props?.type !== 'ObjectExpression') {
+        return;
+      }
+      
+      for (const { component, prop } of usage.components) {
+        if (normalizeUsageName(component) !== normalizeUsageName(componentName)) continue;
+        
+        for (const property of props.properties as AstNode[]) {
+          if (property.type === 'Property' && getPropertyKey(property) === prop) {
+            collectStringValues(property.value).forEach(id => usedIds.add(id));
+          }
+        }
+      }
+    } else if (node.type === 'Property') {
+      const key = getPropertyKey(node);
+      if (!key) {
+        return;
+      }
+      
+      if (properties.has(normalizeUsageName(key))) {
+        collectStringValues(node.value).forEach(id => usedIds.add(id));
+      } else if (HREF_ATTRIBUTES.includes(key)) {
+        addHrefUsages(collectStringValues(node.value), usedIds);
+      }
+    }
+  });
+}
+
+/**
+ * Разбирает JS/TS/JSX/TSX код и находит использование иконок
+ * TypeScript и JSX предварительно компилируются esbuild (JSX → вызов фабрики)
+ */
+async function collectScriptUsages(
+  code: string,
+  filePath: string,
+  loader: ScriptLoader,
+  parser: UsageParser,
+  usage: Required<UsageOptions>,
+  usedIds: Set<string>
+): Promise<void> {
+  const compile = async (compileLoader: ScriptLoader) => {
+    const result = await parser.transformWithEsbuild(code, filePath, {
+      loader: compileLoader,
+      jsx: 'transform',
+      jsxFactory: USAGE_JSX_FACTORY,
+      jsxFragment: USAGE_JSX_FRAGMENT,
+      sourcemap: false
+    });
+    return result.code;
+  };
+  
+  let ast: AstNode;
+  if (loader === 'js') {
+    try {
+      ast = parser.parseAst(code);
+    } catch {
+      // .js файлы в React проектах могут содержать JSX
+      ast = parser.parseAst(await compile('jsx'));
+    }
+  } else {
+    ast = parser.parseAst(await compile(loader));
+  }
+  
+  collectAstUsages(ast, usage, usedIds);
+}
+
+/**
+ * Возвращает статические строки из выражения шаблона (:name="cond ? 'a' : 'b'", name={'a'})
+ */
+function collectExpressionStrings(expression: string, parser: UsageParser): string[] {
+  try {
+    const [statement] = parser.parseAst(`(${expression});`).body;
+    return collectStringValues(statement?.expression);
+  } catch {
+    // Выражение не является валидным JS - ищем строковые литералы
+    return Array.from(expression.matchAll(/["']([^"']+)["']/g), match => match[1]);
+  }
+}
+
+/**
+ * Находит использование иконок в разметке HTML/Vue/Svelte шаблонов
+ */
+function collectMarkupUsages(
+  markup: string,
+  parser: UsageParser,
+  usage: Required<UsageOptions>,
+  usedIds: Set<string>
+): void {
+  const properties = new Set(usage.properties.map(normalizeUsageName));
+  
+  for (const [, tagName, attributes = ''] of markup.matchAll(MARKUP_TAG_PATTERN)) {
+    const props = usage.components
+      .filter(({ component }) => normalizeUsageName(component) === normalizeUsageName(tagName))
+      .map(({ prop }) => normalizeUsageName(prop));
+    
+    for (const [, rawName, doubleQuoted, singleQuoted, braced] of attributes.matchAll(MARKUP_ATTRIBUTE_PATTERN)) {
+      // :name и v-bind:name во Vue, name={expr} в Svelte - выражения
+      const isBound = rawName.startsWith(':') || rawName.startsWith('v-bind:') || braced !== undefined;
+      const name = rawName.replace(/^(?:v-bind)?:/, '');
+      const value = braced ?? doubleQuoted ?? singleQuoted;
+      const values = isBound ? collectExpressionStrings(value, parser) : [value];
+      
+      if (props.includes(normalizeUsageName(name)) || properties.has(normalizeUsageName(name))) {
+        values.forEach(id => usedIds.add(id));
+      } else if (HREF_ATTRIBUTES.includes(name)) {
+        addHrefUsages(values, usedIds);
+      }
+    }
+  }
+}
+
+/**
+ * Импорт Icon компонента: import Icon, { Icon as AppIcon } from 'virtual:svg-sprite/react'
+ * Группы: 1 - импорт по умолчанию, 2 - именованные импорты
+ */
+const ICON_COMPONENT_IMPORT_PATTERN = /import\s+(?!type\b)(?:([\w$]+)\s*,?\s*)?(?:\{([^}]*)\}\s*)?from\s*["']virtual:svg-sprite\/(?:react|vue|svelte)["']/g;
+
+/**
+ * Находит локальные имена Icon компонентов, импортированных из virtual:svg-sprite/react | vue | svelte
+ */
+function findIconComponentNames(code: string): string[] {
+  const names = new Set<string>();
+  
+  for (const [, defaultName, named] of code.matchAll(ICON_COMPONENT_IMPORT_PATTERN)) {
+    if (defaultName) {
+      names.add(defaultName);
+    }
+    for (const specifier of (named ?? '').split(',')) {
+      const [imported, local = imported] = specifier.trim().split(/\s+as\s+/);
+      if (imported === 'Icon') {
+        names.add(local);
+      }
+    }
+  }
+  
+  return Array.from(names);
+}
+
+/**
+ * Находит ID иконок, используемых в содержимом файла
+ * - RegExp паттерны ссылок (#iconId) применяются всегда
+ * - При настроенных usage.components/helpers/properties файл разбирается в AST
+ *   (JS/TS/JSX/TSX, блоки <script> и шаблоны HTML/Vue/Svelte)
+ * - Пользовательские usage.extractors вызываются для каждого файла
+ * В contextIds попадают ID из контекста иконки (все, кроме ссылок ICON_HREF_PATTERN)
+ */
+async function extractIconUsages(
+  content: string,
+  filePath: string,
+  usage: Required<UsageOptions>,
+  verbose = false,
+  contextIds: Set<string> | null = null
+): Promise<Set<string>> {
+  const usedIds = new Set<string>();
+  
+  for (const pattern of ICON_USAGE_PATTERNS) {
+    // Сбрасываем lastIndex для глобальных RegExp
+    pattern.lastIndex = 0;
+    
+    let match;
+    while ((match = pattern.exec(content)) !== null) {
+      usedIds.add(match[1]);
+    }
+  }
+  
+  const hasAstRules = usage.components.length > 0 || usage.helpers.length > 0 || usage.properties.length > 0;
+  const parser = hasAstRules ? await loadUsageParser() : null;
+  
+  if (parser) {
+    try {
+      const ext = extname(filePath).toLowerCase();
+      
+      if (['.html', '.htm', '.vue', '.svelte'].includes(ext)) {
+        for (const [, attributes, code] of content.matchAll(SCRIPT_BLOCK_PATTERN)) {
+          const lang = attributes.match(/\blang\s*=\s*["']([a-z]+)["']/i)?.[1].toLowerCase();
+          if (code.trim()) {
+            const loader: ScriptLoader = lang === 'ts' || lang === 'tsx' || lang === 'jsx' ? lang : 'js';
+            await collectScriptUsages(code, filePath, loader, parser, usage, usedIds);
+          }
+        }
+        
+        const markup = content.replace(SCRIPT_BLOCK_PATTERN, '').replace(STYLE_BLOCK_PATTERN, '');
+        collectMarkupUsages(markup, parser, usage, usedIds);
+      } else {
+        const loaders: Record<string, ScriptLoader> = { '.ts': 'ts', '.mts': 'ts', '.cts': 'ts', '.tsx': 'tsx', '.jsx': 'jsx' };
+        await collectScriptUsages(content, filePath, loaders[ext] ?? 'js', parser, usage, usedIds);
+      }
+    } catch (error) {
+      if (verbose) {
+        console.warn(`⚠️  Cannot parse ${basename(filePath)}, using href patterns only:`, (error as Error).message);
+      }
+    }
+  }
+  
+  for (const extractor of usage.extractors) {
+    try {
+      for (const iconId of await extractor(content, filePath)) {
+        usedIds.add(iconId);
+      }
+    } catch (error) {
+      console.warn(`⚠️  Usage extractor failed for ${basename(filePath)}:`, (error as Error).message);
+    }
+  }
+  
+  // Дополнительная валидация: ID должен быть корректным
+  for (const iconId of usedIds) {
+    if (typeof iconId !== 'string' || !/^[a-zA-Z][\w-]*$/.test(iconId)) {
+      usedIds.delete(iconId);
+    } else {
+      contextIds?.add(iconId);
+    }
+  }
+  
+  // Ссылки вне контекста иконки (возможные якоря) - только для tree-shaking
+  for (const [, iconId] of content.matchAll(ICON_HREF_PATTERN)) {
+    usedIds.add(iconId);
+  }
+  
+  return usedIds;
+}
+
+/**
+ * Находит используемые ID иконок в КОНКРЕТНОМ файле
+ * @param filePath - Путь к файлу для сканирования
+ * @param verbose - Подробное логирование
+ * @param usage - Правила поиска использования (опция usage)
+ * @returns Set используемых ID иконок в этом файле
+ */
+async function findUsedIconIdsInFile(
+  filePath: string,
+  verbose = false,
+  usage: Required<UsageOptions> = normalizeUsageOptions()
+): Promise<Set<string>> {
+  try {
+    const content = await readFile(filePath, 'utf-8');
+    return await extractIconUsages(content, filePath, usage, verbose);
+  } catch (error) {
+    if (verbose) {
+      console.warn(`⚠️  Cannot read file ${basename(filePath)}:`, (error as Error).message);
+    }
+    return new Set();
+  }
+}
+
+/**
+ * Ссылка модуля на иконку (line 0 - строка не найдена, anchor - ссылка вне контекста иконки, возможно якорь)
+ */
+interface IconReference {
+  iconId: string;
+  line: number;
+  anchor: boolean;
+}
+
+/**
+ * Находит строки, на которых модуль ссылается на иконки (для отчета и ошибок сборки)
+ * contextIds - ID из контекста иконки (extractIconUsages), остальные помечаются как якоря
+ */
+function locateIconReferences(code: string, iconIds: Set<string>, contextIds: Set<string>): IconReference[] {
+  return Array.from(iconIds, (iconId) => {
+    // Сначала ищем ID в ссылке или строке ("#home", 'home'), затем как отдельное слово
+    const match = new RegExp(`(?:#|["'\`])${iconId}(?![\\w-])`).exec(code) ||
+      new RegExp(`(?<![\\w-])${iconId}(?![\\w-])`).exec(code);
+    
+    return {
+      iconId,
+      line: match ? code.slice(0, match.index).split('\n').length : 0,
+      anchor: !contextIds.has(iconId)
+    };
+  });
+}
+
+/**
+ * Расстояние Левенштейна между строками
+ */
+function getEditDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  
+  return previous[b.length];
+}
+
+/**
+ * Ближайший по написанию ID иконки для подсказки "did you mean"
+ * (отличие не больше трети длины, но хотя бы один символ)
+ */
+function findClosestIconId(iconId: string, knownIds: Iterable<string>): string | null {
+  let closest: string | null = null;
+  let closestDistance = Math.max(1, Math.floor(iconId.length / 3)) + 1;
+  
+  for (const knownId of knownIds) {
+    const distance = getEditDistance(iconId, knownId);
+    if (distance < closestDistance) {
+      closest = knownId;
+      closestDistance = distance;
+    }
+  }
+  
+  return closest;
+}
+
+/**
+ * Проверяет, входит ли ID иконки в safelist (строки и RegExp)
+ */
+function isSafelisted(iconId: string, safelist: Array<string | RegExp>): boolean {
+  return safelist.some(entry => (entry instanceof RegExp ? entry.test(iconId) : entry === iconId));
+}
+
+/**
+ * Фильтрует SVG файлы, оставляя только те, которые используются в коде
+ * ID может быть найден как с idPrefix (href="#icon-home"), так и без него (<Icon name="home" />)
+ * @param allSvgFiles - Все найденные SVG файлы
+ * @param usedIconIds - Set ID иконок, которые используются
+ * @param idPrefix - Префикс для ID символов
+ * @param verbose - Подробное логирование
+ * @param safelist - ID (строки и RegExp), которые сохраняются всегда
+ * @returns Массив только используемых SVG файлов
+ */
+function filterUsedSvgFiles(
+  allSvgFiles: string[],
+  usedIconIds: Set<string>,
+  idPrefix: string,
+  verbose = false,
+  safelist: Array<string | RegExp> = []
+): string[] {
+  // Если не нашли используемые иконки - включаем все (fail-safe)
+  if (usedIconIds.size === 0 && safelist.length === 0) {
+    if (verbose) {
+      console.warn('⚠️  Tree-shaking: no icon usage found, including all icons (fail-safe)');
+    }
+    return allSvgFiles;
+  }
+  
+  const filteredFiles = allSvgFiles.filter(filePath => {
+    const symbolId = generateSymbolId(filePath, idPrefix);
+    const iconName = generateSymbolId(filePath, '');
+    return usedIconIds.has(symbolId) ||
+      usedIconIds.has(iconName) ||
+      isSafelisted(symbolId, safelist) ||
+      isSafelisted(iconName, safelist);
+  });
+  
+  if (verbose) {
+    const removed = allSvgFiles.length - filteredFiles.length;
+    const savedPercent = allSvgFiles.length > 0 
+      ? ((removed / allSvgFiles.length) * 100).toFixed(1)
+      : '0';
+    
+    console.log(
+      `🌲 Tree-shaking: ${allSvgFiles.length} total → ${filteredFiles.length} used ` +
+      `(removed ${removed} unused, ${savedPercent}% reduction)`
+    );
+    
+    // Показываем какие иконки были исключены
+    if (removed > 0) {
+      const unusedFiles = allSvgFiles.filter(f => !filteredFiles.includes(f));
+      const unusedNames = unusedFiles.map(f => basename(f, '.svg'));
+      console.log(`   Unused icons: ${unusedNames.join(', ')}`);
+    }
+  }
+  
+  return filteredFiles;
+}
+
+/**
+ * Асинхронно генерирует хеш на основе содержимого файлов
+ * touch и свежий checkout без изменений иконок не пересобирают спрайт
+ */
+async function generateHashFromContent(svgFiles: string[]): Promise<string> {
+  // Удаленные или недоступные файлы не учитываются
+  const contents = await Promise.all(svgFiles.map(file => readFile(file, 'utf-8').catch(() => null)));
+  const hash = createHash('md5');
+  
+  svgFiles.forEach((file, index) => {
+    if (contents[index] !== null) {
+      hash.update(`${file}\0${contents[index]}\0`);
+    }
+  });
+  
+  return hash.digest('hex').substring(0, 8);
+}
+
+/**
+ * Сериализует настройки, от которых зависит результат разбора иконки, для ключа кэша
+ * Функции (плагины SVGO) и RegExp (rootAttributes, sanitize) сериализуются исходным кодом
+ */
+function serializeCacheSettings(settings: unknown): string {
+  return JSON.stringify(settings, (key, value: unknown) => {
+    if (typeof value === 'function' || value instanceof RegExp) {
+      return String(value);
+    }
+    return value instanceof Set ? Array.from(value) : value;
+  });
+}
+
+/**
+ * Создает debounced функцию
+ */
+function debounce<T extends (...args: any[]) => void>(
+  func: T,
+  delay: number
+): T & { cancel: () => void } {
+  let timeoutId: NodeJS.Timeout | undefined;
+  
+  const debouncedFunc = function(this: any, ...args: Parameters<T>) {
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(() => {
+      func.apply(this, args);
+    }, delay);
+  } as T & { cancel: () => void };
+  
+  debouncedFunc.cancel = () => {
+    clearTimeout(timeoutId);
+  };
+  
+  return debouncedFunc;
+}
+
+/**
+ * Валидирует опции плагина
+ */
+function validateOptions(userOptions: SvgSpriteOptions): void {
+  const errors: string[] = [];
+  
+  if (userOptions.debounceDelay !== undefined) {
+    if (typeof userOptions.debounceDelay !== 'number' || userOptions.debounceDelay < 0) {
+      errors.push('debounceDelay must be a positive number');
+    }
+  }
+  
+  if (userOptions.iconsFolder !== undefined) {
+    if (typeof userOptions.iconsFolder !== 'string' || !userOptions.iconsFolder.trim()) {
+      errors.push('iconsFolder must be a non-empty string');
+    }
+  }
+  
+  if (userOptions.spriteId !== undefined) {
+    if (!/^[a-zA-Z][\w-]*$/.test(userOptions.spriteId)) {
+      errors.push('spriteId must be a valid HTML ID');
+    }
+  }
+  
+  if (userOptions.idPrefix !== undefined) {
+    if (typeof userOptions.idPrefix !== 'string') {
+      errors.push('idPrefix must be a string');
+    }
+  }
+  
+  if (userOptions.output !== undefined && !OUTPUT_MODES.includes(userOptions.output)) {
+    errors.push(`output must be one of: ${OUTPUT_MODES.join(', ')}`);
+  }
+  
+  if (userOptions.mode !== undefined && !SPRITE_MODES.includes(userOptions.mode)) {
+    errors.push(`mode must be one of: ${SPRITE_MODES.join(', ')}`);
+  }
+  
+  if (userOptions.unknownIcons !== undefined && !UNKNOWN_ICONS_MODES.includes(userOptions.unknownIcons)) {
+    errors.push(`unknownIcons must be one of: ${UNKNOWN_ICONS_MODES.join(', ')}`);
+  }
+  
+  // Стратегия цвета: строка или { default, icons } (также у каждого спрайта)
+  const validateColors = (colors: any, label: string) => {
+    if (colors === undefined || COLOR_STRATEGIES.includes(colors)) {
+      return;
+    }
+    if (!colors || typeof colors !== 'object' || Array.isArray(colors)) {
+      errors.push(`${label} must be one of: ${COLOR_STRATEGIES.join(', ')} or an object`);
+      return;
+    }
+    if (colors.default !== undefined && !COLOR_STRATEGIES.includes(colors.default)) {
+      errors.push(`${label}.default must be one of: ${COLOR_STRATEGIES.join(', ')}`);
+    }
+    if (colors.icons !== undefined && (!colors.icons || typeof colors.icons !== 'object' || Array.isArray(colors.icons))) {
+      errors.push(`${label}.icons must be an object`);
+    } else {
+      for (const [key, strategy] of Object.entries(colors.icons ?? {})) {
+        if (!COLOR_STRATEGIES.includes(strategy as ColorStrategy)) {
+          errors.push(`${label}.icons["${key}"] must be one of: ${COLOR_STRATEGIES.join(', ')}`);
+        }
+      }
+    }
+  };
+  validateColors(userOptions.colors, 'colors');
+  
+  if (userOptions.dts !== undefined && userOptions.dts !== false) {
+    if (typeof userOptions.dts !== 'string' || !userOptions.dts.trim().endsWith('.ts')) {
+      errors.push('dts must be a path to a .d.ts file or false');
+    }
+  }
+  
+  if (userOptions.sprites !== undefined) {
+    if (!Array.isArray(userOptions.sprites)) {
+      errors.push('sprites must be an array');
+    } else {
+      const names = new Set<string>();
+      const spriteIds = new Set<string>();
+      
+      userOptions.sprites.forEach((sprite, index) => {
+        const label = `sprites[${index}]`;
+        
+        if (!sprite || typeof sprite.name !== 'string' || !/^[a-zA-Z][\w-]*$/.test(sprite.name)) {
+          errors.push(`${label}.name must be a valid name (start with letter, alphanumeric, -, _)`);
+          return;
+        }
+        if (names.has(sprite.name)) {
+          errors.push(`${label}.name "${sprite.name}" is used by another sprite`);
+        }
+        names.add(sprite.name);
+        
+        if (typeof sprite.iconsFolder !== 'string' || !sprite.iconsFolder.trim()) {
+          errors.push(`${label}.iconsFolder must be a non-empty string`);
+        }
+        
+        if (sprite.spriteId !== undefined && !/^[a-zA-Z][\w-]*$/.test(sprite.spriteId)) {
+          errors.push(`${label}.spriteId must be a valid HTML ID`);
+        }
+        
+        if (sprite.idPrefix !== undefined && typeof sprite.idPrefix !== 'string') {
+          errors.push(`${label}.idPrefix must be a string`);
+        }
+        
+        if (sprite.mode !== undefined && !SPRITE_MODES.includes(sprite.mode)) {
+          errors.push(`${label}.mode must be one of: ${SPRITE_MODES.join(', ')}`);
+        }
+        
+        validateColors(sprite.colors, `${label}.colors`);
+        
+        // Каждый спрайт инжектируется отдельным элементом - ID в DOM не должны совпадать
+        const spriteId = sprite.spriteId ?? `${userOptions.spriteId ?? defaultOptions.spriteId}-${sprite.name}`;
+        if (spriteIds.has(spriteId)) {
+          errors.push(`${label}.spriteId "${spriteId}" is used by another sprite`);
+        }
+        spriteIds.add(spriteId);
+      });
+    }
+  }
+  
+  // stack/view спрайты бывают только внешним файлом (<img src="sprite.svg#id">, CSS)
+  const spriteModes = [
+    userOptions.mode,
+    ...(Array.isArray(userOptions.sprites) ? userOptions.sprites.map(sprite => sprite?.mode) : [])
+  ];
+  if ((userOptions.output ?? 'inline') === 'inline' && spriteModes.some(mode => mode && mode !== 'symbol')) {
+    errors.push("mode 'stack' | 'view' requires output: 'file' or 'both'");
+  }
+  
+  if (userOptions.chunkSprites !== undefined) {
+    if (typeof userOptions.chunkSprites !== 'boolean') {
+      errors.push('chunkSprites must be a boolean');
+    } else if (userOptions.chunkSprites && (userOptions.output ?? 'inline') !== 'inline') {
+      errors.push("chunkSprites requires output: 'inline'");
+    }
+  }
+  
+  if (userOptions.css !== undefined && typeof userOptions.css !== 'boolean') {
+    if (!userOptions.css || typeof userOptions.css !== 'object' || Array.isArray(userOptions.css)) {
+      errors.push('css must be a boolean or an object');
+    } else if (userOptions.css.prefix !== undefined && (
+      typeof userOptions.css.prefix !== 'string' || !/^(?:[a-zA-Z_][\w-]*)?$/.test(userOptions.css.prefix)
+    )) {
+      errors.push('css.prefix must be a valid CSS class name prefix');
+    }
+  }
+  
+  if (userOptions.rootAttributes !== undefined) {
+    const rootAttributes = userOptions.rootAttributes;
+    const isPatternList = (value: unknown) => Array.isArray(value) && value.every(entry => typeof entry === 'string' || entry instanceof RegExp);
+    
+    if (!rootAttributes || typeof rootAttributes !== 'object' || Array.isArray(rootAttributes)) {
+      errors.push('rootAttributes must be an object');
+    } else {
+      for (const key of ['allow', 'deny'] as const) {
+        if (rootAttributes[key] !== undefined && !isPatternList(rootAttributes[key])) {
+          errors.push(`rootAttributes.${key} must be an array of strings or RegExp`);
+        }
+      }
+    }
+  }
+  
+  if (userOptions.sanitize !== undefined) {
+    const sanitize = userOptions.sanitize;
+    
+    if (typeof sanitize === 'string') {
+      if (!SANITIZE_LEVELS.includes(sanitize)) {
+        errors.push(`sanitize must be one of: ${SANITIZE_LEVELS.join(', ')} or a policy object`);
+      }
+    } else if (!sanitize || typeof sanitize !== 'object' || Array.isArray(sanitize)) {
+      errors.push(`sanitize must be one of: ${SANITIZE_LEVELS.join(', ')} or a policy object`);
+    } else {
+      if (sanitize.elements !== undefined && !(Array.isArray(sanitize.elements) && sanitize.elements.every(entry => typeof entry === 'string'))) {
+        errors.push('sanitize.elements must be an array of strings');
+      }
+      if (sanitize.attributes !== undefined && !(Array.isArray(sanitize.attributes) && sanitize.attributes.every(entry => typeof entry === 'string' || entry instanceof RegExp))) {
+        errors.push('sanitize.attributes must be an array of strings or RegExp');
+      }
+      if (sanitize.allowExternalUrls !== undefined && typeof sanitize.allowExternalUrls !== 'boolean') {
+        errors.push('sanitize.allowExternalUrls must be a boolean');
+      }
+    }
+  }
+  
+  if (userOptions.workers !== undefined && userOptions.workers !== 'auto' &&
+      !(Number.isInteger(userOptions.workers) && userOptions.workers >= 0)) {
+    errors.push("workers must be a non-negative integer or 'auto'");
+  }
+  
+  for (const option of ['report', 'failOnMissingIcons', 'scopeIds', 'hoistDefs', 'failOnUnsafeIcons', 'persistentCache'] as const) {
+    if (userOptions[option] !== undefined && typeof userOptions[option] !== 'boolean') {
+      errors.push(`${option} must be a boolean`);
+    }
+  }
+  
+  if (userOptions.usage !== undefined) {
+    const usage = userOptions.usage;
+    const isStringArray = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+    
+    if (!usage || typeof usage !== 'object' || Array.isArray(usage)) {
+      errors.push('usage must be an object');
+    } else {
+      if (usage.components !== undefined && (
+        !Array.isArray(usage.components) ||
+        !usage.components.every(entry => typeof entry?.component === 'string' && typeof entry?.prop === 'string')
+      )) {
+        errors.push('usage.components must be an array of { component, prop } objects');
+      }
+      if (usage.helpers !== undefined && !isStringArray(usage.helpers)) {
+        errors.push('usage.helpers must be an array of strings');
+      }
+      if (usage.properties !== undefined && !isStringArray(usage.properties)) {
+        errors.push('usage.properties must be an array of strings');
+      }
+      if (usage.safelist !== undefined && (
+        !Array.isArray(usage.safelist) ||
+        !usage.safelist.every(entry => typeof entry === 'string' || entry instanceof RegExp)
+      )) {
+        errors.push('usage.safelist must be an array of strings or RegExp');
+      }
+      if (usage.extractors !== undefined && (
+        !Array.isArray(usage.extractors) ||
+        !usage.extractors.every(extractor => typeof extractor === 'function')
+      )) {
+        errors.push('usage.extractors must be an array of functions');
+      }
+    }
+  }
+  
+  if (errors.length > 0) {
+    throw new Error(`❌ Invalid SVG Sprite Plugin options:\n- ${errors.join('\n- ')}`);
+  }
+}
+
+
+/**
+ * Логгер с учетом verbose режима
+ */
+function createLogger(options: Required<SvgSpriteOptions>) {
+  return {
     log: (...args: any[]) => {
       if (options.verbose) console.log(...args);
     },
@@ -668,6 +3480,7 @@ function createLogger(options: Required<SvgSpriteOptions>) {
  * 
  * @param userPath - путь от пользователя (относительный или абсолютный)
  * @param projectRoot - корень проекта (из Vite config)
+ * @param optionName - имя опции для сообщений об ошибках
  * @returns безопасный абсолютный путь
  * @throws {Error} если путь небезопасен (выходит за пределы проекта)
  * 
@@ -682,10 +3495,10 @@ function createLogger(options: Required<SvgSpriteOptions>) {
  * validateIconsPath('../../../etc', '/project') // → Error ❌
  * validateIconsPath('/etc/passwd', '/project') // → Error ❌
  */
-function validateIconsPath(userPath: string, projectRoot: string): string {
+function validateIconsPath(userPath: string, projectRoot: string, optionName = 'iconsFolder'): string {
   // 1. Проверяем базовую валидность пути
   if (!userPath || typeof userPath !== 'string') {
-    throw new Error('iconsFolder must be a non-empty string');
+    throw new Error(`${optionName} must be a non-empty string`);
   }
   
   // 2. Резолвим путь относительно корня проекта
@@ -699,7 +3512,7 @@ function validateIconsPath(userPath: string, projectRoot: string): string {
   // значит он выходит за пределы projectRoot
   if (relativePath.startsWith('..') || isAbsolute(relativePath)) {
     throw new Error(
-      `\n❌ Security Error: Invalid iconsFolder path\n\n` +
+      `\n❌ Security Error: Invalid ${optionName} path\n\n` +
       `  Provided path: "${userPath}"\n` +
       `  Resolved to: "${absolutePath}"\n` +
       `  Project root: "${projectRoot}"\n\n` +
@@ -731,87 +3544,420 @@ function validateIconsPath(userPath: string, projectRoot: string): string {
 export default function svgSpritePlugin(userOptions: SvgSpriteOptions = {}): Plugin {
   validateOptions(userOptions);
   
-  const options: Required<SvgSpriteOptions> = { ...defaultOptions, ...userOptions };
-  const logger = createLogger(options);
+  const options: Required<SvgSpriteOptions> = { ...defaultOptions, ...userOptions };
+  const logger = createLogger(options);
+  
+  // Конфигурации спрайтов (один спрайт из опций верхнего уровня или опция sprites)
+  const spriteConfigs = normalizeSpriteConfigs(options);
+  const isMultiSprite = options.sprites.length > 0;
+  
+  // Правила поиска использования иконок для tree-shaking
+  const usageOptions = normalizeUsageOptions(options.usage);
+  
+  // Отчет об использовании иконок тоже строится по модулям бандла
+  const isReportEnabled = options.report || options.failOnMissingIcons;
+  
+  // Настройки stylesheet virtual:svg-sprite.css (null - опция css выключена)
+  const cssOptions = options.css ? { prefix: 'icon-', ...(options.css === true ? {} : options.css) } : null;
+  
+  // Правила переноса атрибутов корневого <svg> на <symbol>
+  const rootAttributeRules = {
+    allow: options.rootAttributes.allow ?? DEFAULT_ROOT_ATTRIBUTES,
+    deny: options.rootAttributes.deny ?? []
+  };
+  
+  // Политика санитайзера SVG (null - sanitize: 'off')
+  const sanitizePolicy = resolveSanitizePolicy(options.sanitize);
+  
+  // 🧵 Максимум worker для разбора SVG (0 - в основном потоке)
+  const workerCount = options.workers === 'auto' ? Math.max(1, cpus().length - 1) : options.workers;
+  
+  // Фильтр модулей, в которых ищется использование иконок (tree-shaking)
+  // Связанные пакеты монорепо разрешаются Vite в реальные пути и тоже проверяются
+  const scanFilter = createFilter(
+    options.scanExtensions.map(ext => `**/*${ext}`),
+    ['**/node_modules/**']
+  );
+  
+  // ===== БЕЗОПАСНОСТЬ: Валидация пути =====
+  // Пути к иконкам будут валидированы в configResolved хуке
+  // после получения viteRoot из конфигурации
+  let viteRoot = process.cwd(); // Дефолтное значение (будет перезаписано)
+  let validatedDtsPath = ''; // Путь к .d.ts файлу с типами иконок (опция dts)
+  let command: 'serve' | 'build' = 'serve'; // Команда Vite (serve/build)
+  let base = '/'; // Публичный base URL (для ссылок на файл спрайта)
+  let assetsDir = 'assets'; // Папка ассетов внутри outDir
+  
+  // ===== ИНКАПСУЛИРОВАННОЕ СОСТОЯНИЕ ПЛАГИНА =====
+  const pluginState = {
+    parseCache: new Map<string, ParsedSVG>(),
+    svgoModule: null as { optimize: (svg: string, config?: any) => { data: string }; VERSION?: string } | null,
+    svgoLoadAttempted: false,
+    // Состояние каждого спрайта по имени
+    sprites: new Map<string, SpriteState>(
+      spriteConfigs.map(config => [config.name, createSpriteState(config)])
+    ),
+    // ID символа → URL файла его спрайта (output: 'file')
+    symbolUrls: new Map<string, string>(),
+    // 🌲 Иконки каждого модуля при tree-shaking в build (null - спрайты собираются в buildStart)
+    moduleUsages: null as Map<string, Set<string>> | null,
+    // 🌲 Спрайты, собранные по чанкам текущего вывода (renderChunk → generateBundle)
+    bundleSprites: null as { chunks: BundleChunks; result: Promise<BundleSprites> } | null,
+    // 📊 Ссылки каждого модуля на иконки с номерами строк (report, failOnMissingIcons)
+    moduleReferences: new Map<string, IconReference[]>(),
+    // Хеш настроек разбора каждого спрайта (часть ключа кэша)
+    parseSettingsHashes: new Map<string, string>(),
+    // 💾 Папка постоянного кэша (null - выключен или configResolved еще не вызван)
+    persistentCacheDir: null as string | null,
+    persistentCacheReady: null as Promise<unknown> | null,
+    // Ключи записей, использованных в этой сборке: остальные удаляются после нее
+    persistentCacheKeys: new Set<string>(),
+    // 🧵 Пул worker для разбора SVG (создается при первом разборе, закрывается после сборки)
+    workerPool: null as SVGWorkerPool | null,
+    workerFallbackLogged: false,
+    // 🔎 Неизвестные ID иконок каждого модуля, о которых уже предупредили (dev, опция unknownIcons)
+    unknownReferences: new Map<string, Set<string>>(),
+    // Dev сервер для error overlay (unknownIcons: 'overlay')
+    devServer: null as ViteDevServer | null
+  };
+  
+  // ===== ВНУТРЕННИЕ ФУНКЦИИ С ДОСТУПОМ К СОСТОЯНИЮ =====
+  
+  function getSpritesInternal(): SpriteState[] {
+    return Array.from(pluginState.sprites.values());
+  }
+  
+  // Метка спрайта для логов (только при нескольких спрайтах)
+  function getSpriteLabel(sprite: SpriteState): string {
+    return isMultiSprite ? ` [${sprite.config.name}]` : '';
+  }
+  
+  // Отсортированные ID символов всех спрайтов
+  function getAllIconIdsInternal(): string[] {
+    return Array.from(new Set(getSpritesInternal().flatMap(sprite => Array.from(sprite.symbolIds)))).sort();
+  }
+  
+  // Модуль отдельной иконки: home.svg?symbol, home.svg?symbol=svg | react | vue
+  // (иконка разбирается parseSVGCached с настройками своего спрайта)
+  async function loadSymbolModuleInternal(id: string, context: Rollup.PluginContext): Promise<string | null> {
+    const [filePath, query = ''] = id.split('?');
+    const params = new URLSearchParams(query);
+    if (!filePath.endsWith('.svg') || !params.has('symbol')) {
+      return null;
+    }
+    
+    const format = params.get('symbol') as SymbolImportFormat;
+    if (!SYMBOL_IMPORT_FORMATS.includes(format)) {
+      context.error(`Unknown ?symbol format "${format}" in ${basename(filePath)}: use ?symbol, ?symbol=svg, ?symbol=react or ?symbol=vue`);
+    }
+    
+    const normalizedFile = normalizePath(filePath);
+    const sprite = getSpritesInternal().find(item => item.allSvgFiles.some(file => normalizePath(file) === normalizedFile));
+    if (!sprite) {
+      context.error(`${normalizePath(relative(viteRoot, filePath))} is not in an icons folder of the SVG Sprite Plugin`);
+    }
+    
+    const parsed = await parseSVGCachedInternal(filePath, sprite);
+    if (!parsed) {
+      context.error(`Failed to parse ${basename(filePath)}`);
+    }
+    
+    const symbolId = generateSymbolId(filePath, sprite.config.idPrefix);
+    
+    // 🌲 Импорт иконки - ее использование: модуль вошел в бандл - иконка в спрайте
+    if (pluginState.moduleUsages) {
+      pluginState.moduleUsages.set(id, new Set([symbolId]));
+      pluginState.moduleReferences.set(id, [{ iconId: symbolId, line: 0, anchor: false }]);
+    }
+    
+    return generateSymbolModuleCode({
+      id: symbolId,
+      viewBox: parsed.viewBox,
+      url: `${sprite.spriteUrl}#${symbolId}`,
+      content: parsed.content,
+      attributes: parsed.attributes
+    }, format);
+  }
+  
+  // Модуль virtual:svg-sprite/ssr из всех иконок спрайтов: набор иконок серверной и клиентской
+  // сборок может отличаться, поэтому вместо tree-shaking иконки фильтруются в renderSprite({ icons })
+  async function generateSsrModuleInternal(): Promise<string> {
+    const sprites: SsrSpriteData[] = [];
+    
+    for (const sprite of getSpritesInternal()) {
+      const symbolMarkup = new Map<string, string>();
+      const inner = getSpriteInner(await buildSpriteFromFilesInternal(sprite.allSvgFiles, sprite, symbolMarkup));
+      const style = options.hoistDefs ? OFFSCREEN_SPRITE_STYLE : HIDDEN_SPRITE_STYLE;
+      
+      sprites.push({
+        name: sprite.config.name,
+        // Атрибуты как у тега, который transformIndexHtml инжектит в index.html
+        open: `<svg id="${sprite.config.spriteId}" class="${sprite.config.spriteClass}" style="${style}" xmlns="http://www.w3.org/2000/svg">`,
+        // Общий <defs> (hoistDefs) всегда идет первым дочерним элементом спрайта
+        defs: inner.startsWith('<defs>') ? inner.slice(0, inner.indexOf('</defs>') + '</defs>'.length) : '',
+        symbols: Array.from(symbolMarkup)
+      });
+    }
+    
+    return generateSsrModuleCode(sprites);
+  }
+  
+  // Stylesheet virtual:svg-sprite.css из кэша parseSVGCached
+  // (все иконки всех спрайтов: классы используются из CSS, поэтому без tree-shaking)
+  async function generateCssInternal(prefix: string): Promise<string> {
+    const icons = new Map<string, string>();
+    
+    for (const sprite of getSpritesInternal()) {
+      const parsedIcons = await parseSpriteIconsInternal(sprite.allSvgFiles, sprite);
+      for (const [symbolId, parsed] of parsedIcons) {
+        // При конфликте ID используется иконка первого объявленного спрайта
+        if (!icons.has(symbolId)) {
+          icons.set(symbolId, generateSvgDataUri(parsed.content, parsed.viewBox, parsed.attributes));
+        }
+      }
+    }
+    
+    const sortedIcons = Array.from(icons, ([id, dataUri]) => ({ id, dataUri }))
+      .sort((a, b) => a.id.localeCompare(b.id));
+    return generateSpriteCss(sortedIcons, prefix);
+  }
+  
+  async function loadSVGOInternal() {
+    if (pluginState.svgoLoadAttempted) {
+      return pluginState.svgoModule;
+    }
+    
+    pluginState.svgoLoadAttempted = true;
+    
+    try {
+      pluginState.svgoModule = await import('svgo');
+      return pluginState.svgoModule;
+    } catch (error) {
+      pluginState.svgoModule = null;
+      return null;
+    }
+  }
+  
+  // 🧵 Пул worker для разбора SVG (null - workers выключены или недоступны)
+  function getWorkerPoolInternal(): SVGWorkerPool | null {
+    if (!workerCount) {
+      return null;
+    }
+    
+    if (!pluginState.workerPool) {
+      pluginState.workerPool = createSVGWorkerPool(workerCount);
+      logger.log(`🧵 Processing SVG in up to ${workerCount} worker thread(s)`);
+    }
+    return pluginState.workerPool;
+  }
+  
+  async function closeWorkerPoolInternal(): Promise<void> {
+    const pool = pluginState.workerPool;
+    pluginState.workerPool = null;
+    await pool?.close();
+  }
+  
+  // Разбор, санитайзер и SVGO в пуле worker; если worker недоступны - в основном потоке
+  async function processSVGSourceInternal(source: string, sprite: SpriteState, colors: ColorStrategy): Promise<ProcessedSVG> {
+    const svgo = options.svgoOptimize ? await loadSVGOInternal() : null;
+    
+    if (options.svgoOptimize && !svgo && options.verbose) {
+      logger.warn('⚠️  SVGO not installed. Skipping optimization. Install with: npm install -D svgo');
+    }
+    
+    const settings: SVGProcessSettings = {
+      sanitizePolicy,
+      svgoConfig: svgo ? (sprite.config.svgoConfig || getDefaultSVGOConfig(colors === 'mono')) : null,
+      colors
+    };
+    
+    const pool = getWorkerPoolInternal();
+    if (pool) {
+      const message = await pool.run({ source, settings }).catch((error: Error) => {
+        if (!pluginState.workerFallbackLogged) {
+          pluginState.workerFallbackLogged = true;
+          logger.warn(`⚠️  SVG workers unavailable (${error.message}), processing icons in the main thread`);
+        }
+        return null;
+      });
+      
+      if (message?.error !== undefined) {
+        throw new Error(message.error);
+      }
+      if (message) {
+        return message.result;
+      }
+    }
+    
+    return processSVGSource(source, settings, svgo);
+  }
+  
+  /**
+   * 🎨 Стратегия цвета иконки (опция colors спрайта, без стратегии - по опции currentColor)
+   */
+  function getColorStrategyInternal(filePath: string, sprite: SpriteState): ColorStrategy {
+    return resolveColorStrategy(
+      sprite.config.colors,
+      generateSymbolId(filePath, sprite.config.idPrefix),
+      normalizePath(relative(sprite.iconsFolder, filePath)),
+      options.currentColor ? 'mono' : 'preserve'
+    );
+  }
+  
+  /**
+   * 🎨 Предупреждает о многоцветной иконке со стратегией 'mono', цвета которой SVGO свел к currentColor
+   * (без SVGO или с конфигом без convertColors цвета остаются)
+   */
+  function checkIconColorsInternal(
+    filePath: string,
+    { colors, content, attributes }: { colors: string[]; content: string; attributes: Record<string, string> },
+    strategy: ColorStrategy
+  ): void {
+    if (strategy === 'mono' && colors.length > 1 && collectSVGColors(content, attributes).length < colors.length) {
+      console.warn(
+        `⚠️  ${normalizePath(relative(viteRoot, filePath))} has ${colors.length} colors (${colors.join(', ')}) ` +
+        `but uses the 'mono' color strategy - set colors to 'preserve' or 'variables' for it`
+      );
+    }
+  }
   
-  // ✅ NEW: Create filter for tree-shaking file scanning
-  const scanFilter = createFilter(
-    options.scanExtensions.map(ext => `**/*${ext}`),
-    [
-      '**/node_modules/**',
-      '**/dist/**',
-      '**/build/**',
-      '**/.git/**',
-      '**/coverage/**'
-    ]
-  );
+  /**
+   * 🛡️ Сообщает о конструкциях, удаленных санитайзером
+   * Опасное содержимое показывается всегда, элементы и атрибуты вне списка - в verbose режиме
+   */
+  function logSanitizeViolationsInternal(filePath: string, violations: SanitizeViolation[]): void {
+    for (const { construct, reason, dangerous } of violations) {
+      if (dangerous) {
+        console.warn(`🛡️  ${basename(filePath)}: removed ${construct} (${reason})`);
+      } else {
+        logger.log(`🧹 ${basename(filePath)}: removed ${construct} (${reason})`);
+      }
+    }
+  }
   
-  // ===== БЕЗОПАСНОСТЬ: Валидация пути =====
-  // Путь к иконкам будет валидирован в configResolved хуке
-  // после получения viteRoot из конфигурации
-  let viteRoot = process.cwd(); // Дефолтное значение (будет перезаписано)
-  let validatedIconsFolder = ''; // Безопасный путь после валидации
-  let command: 'serve' | 'build' = 'serve'; // Команда Vite (serve/build)
+  /**
+   * 🛡️ failOnUnsafeIcons: ошибка сборки, если санитайзер удалил из иконок опасное содержимое
+   */
+  async function checkUnsafeIconsInternal(context: Rollup.PluginContext): Promise<void> {
+    const unsafe = new Set<string>();
+    
+    for (const sprite of getSpritesInternal()) {
+      for (const filePath of sprite.allSvgFiles) {
+        const parsed = await parseSVGCachedInternal(filePath, sprite);
+        for (const { construct, reason, dangerous } of parsed?.violations ?? []) {
+          if (dangerous) {
+            unsafe.add(`  - ${normalizePath(relative(viteRoot, filePath))}: ${construct} (${reason})`);
+          }
+        }
+      }
+    }
+    
+    if (unsafe.size > 0) {
+      context.error(`❌ Unsafe SVG content removed (failOnUnsafeIcons):\n${Array.from(unsafe).join('\n')}`);
+    }
+  }
   
-  // ===== ИНКАПСУЛИРОВАННОЕ СОСТОЯНИЕ ПЛАГИНА =====
-  const pluginState = {
-    parseCache: new Map<string, ParsedSVG>(),
-    svgoModule: null as { optimize: (svg: string, config?: any) => { data: string } } | null,
-    svgoLoadAttempted: false,
-    svgFiles: [] as string[],
-    spriteContent: '',
-    lastHash: '',
-    regenerateSprite: undefined as ReturnType<typeof debounce> | undefined,
-    // Кэш спрайтов для каждой HTML страницы (per-page tree-shaking)
-    perPageSprites: new Map<string, string>()
-  };
+  /**
+   * Хеш настроек спрайта, от которых зависит результат разбора иконки:
+   * SVGO (версия и svgoConfig), санитайзер, scopeIds и rootAttributes
+   */
+  async function getParseSettingsHashInternal(sprite: SpriteState): Promise<string> {
+    if (!pluginState.parseSettingsHashes.has(sprite.config.name)) {
+      const svgo = options.svgoOptimize ? await loadSVGOInternal() : null;
+      const settings = {
+        version: PARSE_CACHE_VERSION,
+        svgo: svgo ? {
+          version: svgo.VERSION ?? 'unknown',
+          // convertColors зависит от стратегии цвета иконки, она входит в ключ кэша
+          config: sprite.config.svgoConfig || getDefaultSVGOConfig(false)
+        } : null,
+        sanitize: sanitizePolicy,
+        scopeIds: options.scopeIds,
+        rootAttributes: rootAttributeRules
+      };
+      pluginState.parseSettingsHashes.set(sprite.config.name, createHash('md5').update(serializeCacheSettings(settings)).digest('hex'));
+    }
+    return pluginState.parseSettingsHashes.get(sprite.config.name)!;
+  }
   
-  // ===== ВНУТРЕННИЕ ФУНКЦИИ С ДОСТУПОМ К СОСТОЯНИЮ =====
+  /**
+   * Сохраняет разобранную иконку в кэше в памяти (LRU-like: старейшая запись удаляется при переполнении)
+   */
+  function rememberParsedInternal(cacheKey: string, parsed: ParsedSVG): void {
+    pluginState.parseCache.set(cacheKey, parsed);
+    
+    if (pluginState.parseCache.size > MAX_CACHE_SIZE) {
+      const firstKey = pluginState.parseCache.keys().next().value;
+      if (firstKey) {
+        pluginState.parseCache.delete(firstKey);
+      }
+    }
+  }
   
-  async function loadSVGOInternal() {
-    if (pluginState.svgoLoadAttempted) {
-      return pluginState.svgoModule;
+  /**
+   * 💾 Читает разобранную иконку из постоянного кэша (null - записи нет или она повреждена)
+   */
+  async function readPersistentCacheInternal(cacheKey: string): Promise<ParsedSVG | null> {
+    if (!pluginState.persistentCacheDir) {
+      return null;
     }
     
-    pluginState.svgoLoadAttempted = true;
-    
     try {
-      pluginState.svgoModule = await import('svgo');
-      return pluginState.svgoModule;
+      const parsed = JSON.parse(await readFile(join(pluginState.persistentCacheDir, `${cacheKey}.json`), 'utf-8'));
+      return typeof parsed?.content === 'string' ? parsed as ParsedSVG : null;
     } catch (error) {
-      pluginState.svgoModule = null;
       return null;
     }
   }
   
-  async function optimizeSVGInternal(content: string, config?: any, verbose = false): Promise<string> {
-    const svgo = await loadSVGOInternal();
+  /**
+   * 💾 Записывает разобранную иконку в постоянный кэш (ошибки записи не прерывают сборку)
+   */
+  async function writePersistentCacheInternal(cacheKey: string, parsed: ParsedSVG): Promise<void> {
+    if (!pluginState.persistentCacheDir) {
+      return;
+    }
     
-    if (!svgo) {
-      if (verbose) {
-        logger.warn('⚠️  SVGO not installed. Skipping optimization. Install with: npm install -D svgo');
+    try {
+      // Папка создается один раз на запуск
+      if (!pluginState.persistentCacheReady) {
+        pluginState.persistentCacheReady = mkdir(pluginState.persistentCacheDir, { recursive: true });
       }
-      return content;
+      await pluginState.persistentCacheReady;
+      await writeFile(join(pluginState.persistentCacheDir, `${cacheKey}.json`), JSON.stringify(parsed));
+    } catch (error) {
+      logger.warn(`⚠️  Failed to write SVG cache: ${(error as Error).message}`);
+    }
+  }
+  
+  /**
+   * 💾 Удаляет записи постоянного кэша, не использованные в этой сборке (старые версии иконок, удаленные иконки)
+   * Затрагиваются только записи с настройками разбора этой сборки: кэш других конфигураций (SSR, другой
+   * проект с тем же cacheDir) сохраняется
+   */
+  async function prunePersistentCacheInternal(): Promise<void> {
+    const dir = pluginState.persistentCacheDir;
+    // Сборка, не разобравшая ни одной иконки (ошибка до разбора), кэш не трогает
+    if (!dir || command !== 'build' || pluginState.persistentCacheKeys.size === 0) {
+      return;
     }
     
+    // Префикс записи - хеш настроек разбора спрайта
+    const settingsHashes = new Set([...pluginState.persistentCacheKeys].map(key => key.slice(0, 32)));
+    
     try {
-      const originalSize = Buffer.byteLength(content);
-      const result = svgo.optimize(content, config || getDefaultSVGOConfig(options.currentColor));
-      const optimizedSize = Buffer.byteLength(result.data);
-      
-      if (verbose) {
-        const savedPercent = ((1 - optimizedSize / originalSize) * 100).toFixed(1);
-        logger.log(`   SVGO: ${originalSize} → ${optimizedSize} bytes (-${savedPercent}%)`);
+      for (const entry of await readdir(dir)) {
+        const match = /^([a-f0-9]{32})-[a-f0-9]{32}\.json$/.exec(entry);
+        if (match && settingsHashes.has(match[1]) && !pluginState.persistentCacheKeys.has(entry.slice(0, -5))) {
+          await unlink(join(dir, entry));
+        }
       }
-      
-      return result.data;
     } catch (error) {
-      logger.warn('⚠️  SVGO optimization failed:', (error as Error).message);
-      return content;
+      logger.warn(`⚠️  Failed to prune SVG cache: ${(error as Error).message}`);
     }
   }
   
-  async function parseSVGCachedInternal(filePath: string, retryCount = 0): Promise<ParsedSVG | null> {
+  async function parseSVGCachedInternal(filePath: string, sprite: SpriteState, retryCount = 0): Promise<ParsedSVG | null> {
     try {
       const stats = await stat(filePath);
       
@@ -820,19 +3966,12 @@ export default function svgSpritePlugin(userOptions: SvgSpriteOptions = {}): Plu
         throw new Error(`File too large: ${(stats.size / 1024 / 1024).toFixed(2)}MB (max 5MB)`);
       }
       
-      const cacheKey = `${filePath}:${stats.mtimeMs}:${options.svgoOptimize ? '1' : '0'}`;
-      
-      // ✅ Используем инкапсулированный кэш из pluginState
-      if (pluginState.parseCache.has(cacheKey)) {
-        return pluginState.parseCache.get(cacheKey)!;
-      }
-      
       const content = await readFileSafe(filePath);
       
       if (!content.trim()) {
         if (retryCount < 3) {
           await new Promise(resolve => setTimeout(resolve, 50));
-          return parseSVGCachedInternal(filePath, retryCount + 1);
+          return parseSVGCachedInternal(filePath, sprite, retryCount + 1);
         }
         throw new Error('File is empty');
       }
@@ -841,102 +3980,607 @@ export default function svgSpritePlugin(userOptions: SvgSpriteOptions = {}): Plu
         throw new Error('File does not contain <svg> tag. Is this a valid SVG file?');
       }
       
-      const viewBoxMatch = content.match(/viewBox\s*=\s*["']([^"']+)["']/i);
-      const viewBox = viewBoxMatch ? viewBoxMatch[1] : '0 0 24 24';
+      const colors = getColorStrategyInternal(filePath, sprite);
+      
+      // Ключ - хеш настроек разбора спрайта и хеш содержимого файла, ID символа (для scopeIds) и стратегии цвета:
+      // touch и свежий checkout не сбрасывают кэш, изменение svgoConfig, colors или sanitize - сбрасывает
+      const contentHash = createHash('md5')
+        .update(`${generateSymbolId(filePath, sprite.config.idPrefix)}\0${colors}\0${content}`)
+        .digest('hex');
+      const cacheKey = `${await getParseSettingsHashInternal(sprite)}-${contentHash}`;
+      
+      // Запись нужна этой сборке, даже если иконка уже в памяти (build --watch)
+      if (pluginState.persistentCacheDir) {
+        pluginState.persistentCacheKeys.add(cacheKey);
+      }
+      
+      const cached = pluginState.parseCache.get(cacheKey);
+      if (cached) {
+        return cached;
+      }
+      
+      // 💾 Иконки, разобранные в прошлых запусках (нарушения санитайзера и цвета показываются снова)
+      const persisted = await readPersistentCacheInternal(cacheKey);
+      if (persisted) {
+        logSanitizeViolationsInternal(filePath, persisted.violations);
+        checkIconColorsInternal(filePath, persisted, colors);
+        rememberParsedInternal(cacheKey, persisted);
+        return persisted;
+      }
+      
+      // 🧵 Разбор, санитайзер и SVGO (в пуле worker при опции workers)
+      const processed = await processSVGSourceInternal(content, sprite, colors);
+      const { viewBox } = processed;
+      
+      // Атрибуты корневого <svg> проверяются тем же санитайзером: их нарушения видит failOnUnsafeIcons
+      const rootAttributes = pickRootAttributes(processed.attributes, rootAttributeRules, sanitizePolicy);
+      const violations = [...processed.violations, ...rootAttributes.violations];
+      
+      if (!processed.attributes.viewBox && options.verbose) {
+        logger.warn(`⚠️  ${basename(filePath)}: No viewBox found, using "${viewBox}"`);
+      }
+      
+      logSanitizeViolationsInternal(filePath, violations);
+      checkIconColorsInternal(filePath, processed, colors);
+      
+      if (processed.optimizationError) {
+        logger.warn('⚠️  SVGO optimization failed:', processed.optimizationError);
+      } else if (processed.optimization && options.verbose) {
+        const { originalSize, optimizedSize } = processed.optimization;
+        const savedPercent = ((1 - optimizedSize / originalSize) * 100).toFixed(1);
+        logger.log(`   SVGO: ${originalSize} → ${optimizedSize} bytes (-${savedPercent}%)`);
+      }
+      
+      let svgContent = processed.content;
+      
+      // Внутренние id уникальны в пределах спрайта (после SVGO: cleanupIds сокращает их до "a", "b", ...)
+      if (options.scopeIds) {
+        svgContent = scopeSVGIds(svgContent, generateSymbolId(filePath, sprite.config.idPrefix));
+      }
+      
+      const result: ParsedSVG = {
+        viewBox,
+        content: svgContent.trim(),
+        attributes: rootAttributes.attributes,
+        violations,
+        colors: processed.colors
+      };
+      
+      rememberParsedInternal(cacheKey, result);
+      await writePersistentCacheInternal(cacheKey, result);
+      
+      return result;
+    } catch (error) {
+      // Ошибка показывается всегда: иначе иконка молча пропадает из спрайта
+      logger.error(
+        `\n❌ Failed to parse SVG: ${basename(filePath)}\n` +
+        `   Reason: ${(error as Error).message}\n` +
+        `   Suggestion: Check if the file is a valid SVG and not corrupted.\n`
+      );
+      return null;
+    }
+  }
+  
+  // symbolMarkup заполняется разметкой <symbol> по ID (гранулярный HMR)
+  async function buildSpriteFromFilesInternal(svgFiles: string[], sprite: SpriteState, symbolMarkup: Map<string, string> | null = null): Promise<string> {
+    // ✅ OPTIMIZED: Parse all files in parallel (2-3x faster for 50+ icons)
+    const parsedResults = await Promise.all(
+      svgFiles.map(filePath => parseSVGCachedInternal(filePath, sprite))
+    );
+    
+    const symbols: string[] = [];
+    const symbolIds = new Set<string>();
+    const duplicates: Array<{ id: string; file: string }> = [];
+    const definitions = options.hoistDefs ? createDefinitionsHoister() : null;
+    
+    // Sequential processing of results (very fast)
+    for (let i = 0; i < svgFiles.length; i++) {
+      const parsed = parsedResults[i];
+      if (!parsed) continue; // Failed to parse
+      
+      const filePath = svgFiles[i];
+      const symbolId = generateSymbolId(filePath, sprite.config.idPrefix);
+      
+      if (symbolIds.has(symbolId)) {
+        duplicates.push({ id: symbolId, file: filePath });
+        if (options.verbose) {
+          logger.warn(`⚠️  Duplicate symbol ID detected${getSpriteLabel(sprite)}: ${symbolId} from ${basename(filePath)}`);
+        }
+        continue;
+      }
+      
+      symbolIds.add(symbolId);
+      const content = definitions ? definitions.hoist(parsed.content) : parsed.content;
+      const symbol = generateSymbol(symbolId, content, parsed.viewBox, parsed.attributes);
+      symbols.push(symbol);
+      symbolMarkup?.set(symbolId, symbol);
+    }
+    
+    if (duplicates.length > 0 && options.verbose) {
+      logger.warn(
+        `\n⚠️  Found ${duplicates.length} duplicate symbol ID(s)${getSpriteLabel(sprite)}. ` +
+        `These icons were skipped to prevent conflicts.\n`
+      );
+    }
+    
+    return generateSprite(symbols, sprite.config, definitions?.definitions);
+  }
+  
+  // Иконки спрайта из кэша parseSVGCached (при совпадении ID остается первая иконка)
+  async function parseSpriteIconsInternal(svgFiles: string[], sprite: SpriteState): Promise<Map<string, ParsedSVG>> {
+    const parsedResults = await Promise.all(
+      svgFiles.map(filePath => parseSVGCachedInternal(filePath, sprite))
+    );
+    
+    const icons = new Map<string, ParsedSVG>();
+    svgFiles.forEach((filePath, index) => {
+      const parsed = parsedResults[index];
+      const symbolId = generateSymbolId(filePath, sprite.config.idPrefix);
+      if (parsed && !icons.has(symbolId)) {
+        icons.set(symbolId, parsed);
+      }
+    });
+    return icons;
+  }
+  
+  // Файл спрайта в раскладке спрайта (mode); инлайн спрайт, HMR и virtual:svg-sprite всегда на <symbol>
+  async function buildSpriteFileInternal(sprite: SpriteState): Promise<string> {
+    if (sprite.config.mode === 'symbol') {
+      return generateSpriteFile(sprite.spriteContent || generateSprite([], sprite.config));
+    }
+    
+    const parsedIcons = await parseSpriteIconsInternal(sprite.svgFiles, sprite);
+    const icons = Array.from(parsedIcons, ([id, parsed]) => ({ id, ...parsed }));
+    return sprite.config.mode === 'stack' ? generateStackSpriteFile(icons) : generateViewSpriteFile(icons);
+  }
+  
+  // Обновляет ID символов спрайта и карту ID → URL файла
+  function updateSymbolIdsInternal(sprite: SpriteState): void {
+    sprite.symbolIds = new Set(
+      sprite.svgFiles.map(filePath => generateSymbolId(filePath, sprite.config.idPrefix))
+    );
+    
+    pluginState.symbolUrls = new Map();
+    for (const current of getSpritesInternal()) {
+      if (!current.spriteUrl) continue;
+      for (const symbolId of current.symbolIds) {
+        // При конфликте ID ссылка ведет на первый объявленный спрайт
+        if (!pluginState.symbolUrls.has(symbolId)) {
+          pluginState.symbolUrls.set(symbolId, current.spriteUrl);
+        }
+      }
+    }
+  }
+  
+  // Предупреждает о совпадающих ID символов в разных спрайтах
+  // (в одном документе <use href="#id"> сошлется только на один из них)
+  function warnCrossSpriteDuplicatesInternal(): void {
+    if (!isMultiSprite) {
+      return;
+    }
+    
+    const owners = new Map<string, string>();
+    for (const sprite of getSpritesInternal()) {
+      for (const symbolId of sprite.symbolIds) {
+        const owner = owners.get(symbolId);
+        if (owner) {
+          logger.warn(
+            `⚠️  Symbol ID "${symbolId}" exists in sprites "${owner}" and "${sprite.config.name}". ` +
+            'Use idPrefix to keep IDs unique.'
+          );
+        } else {
+          owners.set(symbolId, sprite.config.name);
+        }
+      }
+    }
+  }
+  
+  // Генерирует IconName union в файл из опции dts (только при изменении набора иконок)
+  // Типы строятся по всем иконкам папок (до tree-shaking)
+  async function writeIconTypesInternal(): Promise<void> {
+    if (!validatedDtsPath) {
+      return;
+    }
+    
+    const spriteIconIds: Record<string, string[]> = {};
+    for (const sprite of getSpritesInternal()) {
+      spriteIconIds[sprite.config.name] = Array.from(
+        new Set(sprite.allSvgFiles.map(filePath => generateSymbolId(filePath, sprite.config.idPrefix)))
+      ).sort();
+    }
+    const iconIds = Array.from(new Set(Object.values(spriteIconIds).flat())).sort();
+    
+    try {
+      const written = await writeFileIfChanged(
+        validatedDtsPath,
+        generateIconTypes(iconIds, isMultiSprite ? spriteIconIds : null)
+      );
+      if (written) {
+        logger.log(`📝 Icon types updated: ${relative(viteRoot, validatedDtsPath)} (${iconIds.length} icons)`);
+      }
+    } catch (error) {
+      logger.error(`❌ Failed to write icon types ${validatedDtsPath}:`, (error as Error).message);
+    }
+  }
+  
+  // Генерирует один спрайт в buildStart, при tree-shaking - в renderChunk
+  async function generateSpriteInternal(
+    sprite: SpriteState,
+    usedIconIds: Set<string> | null,
+    context: { emitFile: (file: { type: 'asset'; fileName: string; source: string }) => string },
+    failSafe = true
+  ): Promise<void> {
+    const { config } = sprite;
+    const label = getSpriteLabel(sprite);
+    
+    try {
+      const allSvgFiles = sprite.allSvgFiles;
+      
+      if (allSvgFiles.length === 0) {
+        logger.warn(`⚠️  No SVG files found in ${sprite.iconsFolder}`);
+        sprite.spriteContent = generateSprite([], config);
+        sprite.svgFiles = [];
+        updateSymbolIdsInternal(sprite);
+        return;
+      }
+      
+      logger.log(`📁 Found ${allSvgFiles.length} SVG files${label}`);
+      
+      // 🌲 TREE-SHAKING: Фильтруем только используемые иконки (только в production)
+      let svgFilesToInclude = allSvgFiles;
+      
+      if (config.treeShaking && usedIconIds) {
+        // Без fail-safe (chunkSprites) пустой набор значит, что иконки нужны только lazy чанкам
+        svgFilesToInclude = !failSafe && usedIconIds.size === 0 && usageOptions.safelist.length === 0
+          ? []
+          : filterUsedSvgFiles(
+            allSvgFiles,
+            usedIconIds,
+            config.idPrefix,
+            options.verbose,
+            usageOptions.safelist
+          );
+        
+        // Если после фильтрации не осталось файлов - используем все (fail-safe)
+        if (svgFilesToInclude.length === 0 && failSafe) {
+          logger.warn(`⚠️  Tree-shaking found no used icons${label}, including all (fail-safe)`);
+          svgFilesToInclude = allSvgFiles;
+        }
+      }
+      
+      sprite.svgFiles = svgFilesToInclude;
+      sprite.symbolMarkup = new Map();
+      sprite.spriteContent = await buildSpriteFromFilesInternal(sprite.svgFiles, sprite, sprite.symbolMarkup);
+      sprite.lastHash = await generateHashFromContent(sprite.svgFiles);
+      
+      const iconCount = getIconCount(sprite.spriteContent);
+      const spriteSize = (Buffer.byteLength(sprite.spriteContent) / 1024).toFixed(2);
+      logger.log(`✅ Generated sprite${label} with ${iconCount} icons (${spriteSize} KB)`);
+      
+      // 📦 Внешний файл спрайта: имя строится по хешу содержимого,
+      // поэтому браузер кэширует его между страницами и деплоями
+      if (command === 'build' && options.output !== 'inline') {
+        const source = await buildSpriteFileInternal(sprite);
+        sprite.spriteFileName = `${assetsDir ? `${assetsDir}/` : ''}${config.name}.${generateContentHash(source)}.svg`;
+        sprite.spriteUrl = `${base.endsWith('/') ? base : `${base}/`}${sprite.spriteFileName}`;
+        
+        context.emitFile({
+          type: 'asset',
+          fileName: sprite.spriteFileName,
+          source
+        });
+        
+        logger.log(`📦 Emitted sprite file: ${sprite.spriteFileName}`);
+      }
+      
+      updateSymbolIdsInternal(sprite);
+      
+      // Дополнительная статистика для tree-shaking
+      if (config.treeShaking && usedIconIds && svgFilesToInclude.length < allSvgFiles.length) {
+        const saved = allSvgFiles.length - svgFilesToInclude.length;
+        const savedPercent = ((saved / allSvgFiles.length) * 100).toFixed(1);
+        logger.log(`💾 Tree-shaking saved ${saved} icons${label} (${savedPercent}% reduction)`);
+      }
+    } catch (error) {
+      logger.error(`❌ Failed to generate sprite${label}:`, error);
+      sprite.spriteContent = generateSprite([], config);
+      sprite.svgFiles = [];
+      sprite.lastHash = '';
+      sprite.spriteFileName = '';
+      sprite.spriteUrl = '';
+      updateSymbolIdsInternal(sprite);
+    }
+  }
+  
+  // 🧩 chunkSprites: код lazy чанков, который при импорте добавляет их символы в контейнер спрайта
+  async function buildChunkSpritesInternal(
+    chunks: BundleChunks,
+    chunkUsages: Map<string, Set<string>>,
+    initialChunks: Set<string>
+  ): Promise<Map<string, string>> {
+    const chunkSprites = new Map<string, string>();
+    
+    for (const [fileName, iconIds] of chunkUsages) {
+      const chunk = chunks[fileName];
+      if (initialChunks.has(fileName) || iconIds.size === 0 || chunk.type !== 'chunk') continue;
       
-      if (!viewBoxMatch && options.verbose) {
-        logger.warn(`⚠️  ${basename(filePath)}: No viewBox found, using default "0 0 24 24"`);
+      const code: string[] = [];
+      for (const sprite of getSpritesInternal()) {
+        if (!sprite.config.treeShaking) continue;
+        
+        // Иконки инлайн спрайта уже есть на странице
+        const inlined = new Set(sprite.svgFiles);
+        const chunkFiles = filterUsedSvgFiles(sprite.allSvgFiles, iconIds, sprite.config.idPrefix)
+          .filter(filePath => !inlined.has(filePath));
+        
+        if (chunkFiles.length === 0) continue;
+        
+        const symbols = getSpriteInner(await buildSpriteFromFilesInternal(chunkFiles, sprite));
+        const style = symbols.startsWith('<defs>') ? OFFSCREEN_SPRITE_STYLE : HIDDEN_SPRITE_STYLE;
+        code.push(generateChunkSpriteCode(sprite.config.spriteId, symbols, style));
+        
+        // Имена файлов чанков до хеширования содержат плейсхолдеры - в логе имя чанка
+        logger.log(`🧩 ${chunk.name} chunk${getSpriteLabel(sprite)}: ${chunkFiles.length} icons loaded with the chunk`);
       }
       
-      const svgContentMatch = content.match(/<svg[^>]*>(.*?)<\/svg>/is);
-      if (!svgContentMatch) {
-        throw new Error(
-          'Could not extract content between <svg> tags. ' +
-          'Make sure the file has proper opening and closing <svg> tags.'
-        );
+      if (code.length > 0) {
+        chunkSprites.set(fileName, code.join('\n'));
       }
+    }
+    
+    return chunkSprites;
+  }
+  
+  // 🌲 Спрайты tree-shaking по чанкам сборки: файлы вне графа модулей
+  // и модули, удаленные tree-shaking Rollup, не сохраняют иконки
+  async function buildBundleSpritesInternal(
+    chunks: BundleChunks,
+    context: { emitFile: (file: { type: 'asset'; fileName: string; source: string }) => string }
+  ): Promise<BundleSprites> {
+    const usedIconIds = new Set<string>();
+    const chunkUsages = new Map<string, Set<string>>();
+    const bundledModuleIds = new Set<string>();
+    
+    for (const output of Object.values(chunks)) {
+      if (output.type !== 'chunk') continue;
       
-      let svgContent = svgContentMatch[1];
-      svgContent = sanitizeSVGContent(svgContent);
+      const chunkIconIds = new Set<string>();
+      chunkUsages.set(output.fileName, chunkIconIds);
+      
+      for (const [moduleId, module] of Object.entries(output.modules)) {
+        const moduleUsages = pluginState.moduleUsages?.get(moduleId);
+        // HTML точка входа рендерится в пустой модуль, но ее разметка попадает в сборку
+        if (!moduleUsages || (module.renderedLength === 0 && moduleId !== output.facadeModuleId)) continue;
+        
+        bundledModuleIds.add(moduleId);
+        moduleUsages.forEach(iconId => {
+          usedIconIds.add(iconId);
+          chunkIconIds.add(iconId);
+        });
+      }
+    }
+    
+    if (options.verbose) {
+      logger.log(`🔍 Tree-shaking: found ${usedIconIds.size} used icons in ${bundledModuleIds.size} bundled modules`);
+    }
+    
+    // 🧩 chunkSprites: в инлайн спрайт попадают иконки чанков начальной загрузки,
+    // остальные подгружаются вместе с lazy чанками (без fail-safe, если иконки найдены)
+    const initialChunks = options.chunkSprites && usedIconIds.size > 0 ? getInitialChunks(chunks) : null;
+    let spriteIconIds = usedIconIds;
+    
+    if (initialChunks) {
+      spriteIconIds = new Set<string>();
+      for (const fileName of initialChunks) {
+        chunkUsages.get(fileName)?.forEach(iconId => spriteIconIds.add(iconId));
+      }
+    }
+    
+    for (const sprite of getSpritesInternal()) {
+      await generateSpriteInternal(sprite, spriteIconIds, context, !initialChunks);
+    }
+    
+    warnCrossSpriteDuplicatesInternal();
+    
+    const chunkSprites = initialChunks ? await buildChunkSpritesInternal(chunks, chunkUsages, initialChunks) : new Map<string, string>();
+    
+    // Значения плейсхолдеров: литералы в коде чанков, разметка и URL в HTML
+    const values = new Map<string, unknown>([[createSpritePlaceholder('ICONS'), getAllIconIdsInternal()]]);
+    const markup = new Map<string, string>();
+    const urls = new Map<string, string>();
+    
+    for (const sprite of getSpritesInternal()) {
+      const { name } = sprite.config;
+      values.set(createSpritePlaceholder('ICONS', name), Array.from(sprite.symbolIds).sort());
+      values.set(createSpritePlaceholder('SPRITE', name), sprite.spriteContent);
+      markup.set(createSpritePlaceholder('SPRITE', name), getSpriteInner(sprite.spriteContent));
+      urls.set(createSpritePlaceholder('URL', name), sprite.spriteUrl);
+    }
+    
+    return { values, markup, urls, chunkSprites, bundledModuleIds };
+  }
+  
+  // 🌲 Спрайты текущего вывода собираются один раз, при рендере первого чанка (meta.chunks общий для вывода)
+  function getBundleSpritesInternal(
+    chunks: BundleChunks,
+    context: { emitFile: (file: { type: 'asset'; fileName: string; source: string }) => string }
+  ): Promise<BundleSprites> {
+    if (pluginState.bundleSprites?.chunks !== chunks) {
+      pluginState.bundleSprites = { chunks, result: buildBundleSpritesInternal(chunks, context) };
+    }
+    return pluginState.bundleSprites.result;
+  }
+  
+  // ID иконок всех спрайтов (с idPrefix и без, как при tree-shaking)
+  function getKnownIconIdsInternal(): Set<string> {
+    const knownIds = new Set<string>();
+    for (const sprite of getSpritesInternal()) {
+      for (const filePath of sprite.allSvgFiles) {
+        knownIds.add(generateSymbolId(filePath, sprite.config.idPrefix));
+        knownIds.add(generateSymbolId(filePath, ''));
+      }
+    }
+    return knownIds;
+  }
+  
+  // 🔎 Ссылки на несуществующие иконки в dev режиме (unknownIcons): предупреждение один раз,
+  // пока иконка не появится или ссылка не исчезнет
+  function checkIconReferencesInternal(moduleIds: Iterable<string> = pluginState.moduleReferences.keys()): void {
+    const knownIds = getKnownIconIdsInternal();
+    
+    for (const moduleId of Array.from(moduleIds)) {
+      const file = normalizePath(relative(viteRoot, moduleId));
+      const reported = pluginState.unknownReferences.get(moduleId) ?? new Set<string>();
+      const unknown = (pluginState.moduleReferences.get(moduleId) ?? [])
+        .filter(({ iconId, anchor }) => !anchor && !knownIds.has(iconId));
       
-      if (options.svgoOptimize) {
-        const wrappedSvg = `<svg viewBox="${viewBox}">${svgContent}</svg>`;
-        const optimized = await optimizeSVGInternal(wrappedSvg, options.svgoConfig, options.verbose);
+      for (const { iconId, line } of unknown) {
+        if (reported.has(iconId)) {
+          continue;
+        }
+        
+        const suggestion = findClosestIconId(iconId, knownIds);
+        const message = `Unknown icon "${iconId}" at ${line ? `${file}:${line}` : file}` +
+          (suggestion ? ` - did you mean "${suggestion}"?` : '');
+        console.warn(`⚠️  ${message}`);
         
-        const optimizedMatch = optimized.match(/<svg[^>]*>(.*?)<\/svg>/is);
-        if (optimizedMatch) {
-          svgContent = optimizedMatch[1];
+        if (options.unknownIcons === 'overlay' && pluginState.devServer) {
+          pluginState.devServer.ws.send({
+            type: 'error',
+            err: {
+              message,
+              stack: '',
+              id: moduleId,
+              plugin: 'vite-svg-sprite-generator-plugin',
+              loc: line ? { file: moduleId, line, column: 0 } : undefined
+            }
+          });
         }
       }
       
-      const result: ParsedSVG = {
-        viewBox,
-        content: svgContent.trim()
-      };
-      
-      // ✅ Сохраняем в инкапсулированный кэш
-      pluginState.parseCache.set(cacheKey, result);
-      
-      // LRU-like behavior: удаляем старейшую запись при переполнении
-      if (pluginState.parseCache.size > MAX_CACHE_SIZE) {
-        const firstKey = pluginState.parseCache.keys().next().value;
-        if (firstKey) {
-          pluginState.parseCache.delete(firstKey);
+      const current = new Set(unknown.map(({ iconId }) => iconId));
+      for (const iconId of reported) {
+        if (!current.has(iconId)) {
+          logger.log(`✅ Icon reference "${iconId}" in ${file} resolved`);
         }
       }
       
-      return result;
-    } catch (error) {
-      if (options.verbose) {
-        logger.error(
-          `\n❌ Failed to parse SVG: ${basename(filePath)}\n` +
-          `   Reason: ${(error as Error).message}\n` +
-          `   Suggestion: Check if the file is a valid SVG and not corrupted.\n`
-        );
+      if (current.size > 0) {
+        pluginState.unknownReferences.set(moduleId, current);
+      } else {
+        pluginState.unknownReferences.delete(moduleId);
       }
-      return null;
     }
   }
   
-  async function buildSpriteFromFilesInternal(svgFiles: string[]): Promise<string> {
-    // ✅ OPTIMIZED: Parse all files in parallel (2-3x faster for 50+ icons)
-    const parsedResults = await Promise.all(
-      svgFiles.map(filePath => parseSVGCachedInternal(filePath))
-    );
+  // Опция usage для модуля: Icon компоненты virtual:svg-sprite/react | vue | svelte
+  // регистрируют ID иконок из пропа name (tree-shaking, отчет и проверка ссылок)
+  function getModuleUsageOptionsInternal(code: string): Required<UsageOptions> {
+    const components = findIconComponentNames(code).map(component => ({ component, prop: 'name' }));
+    if (components.length === 0) {
+      return usageOptions;
+    }
+    return { ...usageOptions, components: [...usageOptions.components, ...components] };
+  }
+  
+  // 🔎 Запоминает ссылки модуля (или HTML страницы) на иконки и проверяет их в dev режиме
+  async function checkModuleIconsInternal(moduleId: string, code: string): Promise<void> {
+    const contextIds = new Set<string>();
+    const iconIds = await extractIconUsages(code, moduleId, getModuleUsageOptionsInternal(code), options.verbose, contextIds);
+    pluginState.moduleReferences.set(moduleId, locateIconReferences(code, iconIds, contextIds));
+    checkIconReferencesInternal([moduleId]);
+  }
+  
+  // 📊 Отчет об использовании иконок (report) и ошибка сборки при ссылках на несуществующие иконки
+  async function reportIconUsageInternal(bundledModuleIds: Set<string>, context: Rollup.PluginContext): Promise<void> {
+    const knownIds = getKnownIconIdsInternal();
     
-    const symbols: string[] = [];
-    const symbolIds = new Set<string>();
-    const duplicates: Array<{ id: string; file: string }> = [];
+    // ID иконки → места использования ("src/App.tsx:12")
+    const references = new Map<string, string[]>();
+    const missing: Array<{ id: string; file: string; line: number | null }> = [];
     
-    // Sequential processing of results (very fast)
-    for (let i = 0; i < svgFiles.length; i++) {
-      const parsed = parsedResults[i];
-      if (!parsed) continue; // Failed to parse
+    for (const moduleId of bundledModuleIds) {
+      const file = normalizePath(relative(viteRoot, moduleId));
       
-      const filePath = svgFiles[i];
-      const symbolId = generateSymbolId(filePath, options.idPrefix);
+      for (const { iconId, line, anchor } of pluginState.moduleReferences.get(moduleId) ?? []) {
+        if (knownIds.has(iconId)) {
+          references.set(iconId, [...(references.get(iconId) ?? []), line ? `${file}:${line}` : file]);
+        } else if (!anchor) {
+          missing.push({ id: iconId, file, line: line || null });
+        }
+      }
+    }
+    
+    if (options.report) {
+      const sprites = [];
       
-      if (symbolIds.has(symbolId)) {
-        duplicates.push({ id: symbolId, file: filePath });
-        if (options.verbose) {
-          logger.warn(`⚠️  Duplicate symbol ID detected: ${symbolId} from ${basename(filePath)}`);
+      for (const sprite of getSpritesInternal()) {
+        const included = new Set(sprite.svgFiles);
+        const icons = [];
+        
+        for (const filePath of sprite.allSvgFiles) {
+          const id = generateSymbolId(filePath, sprite.config.idPrefix);
+          const name = generateSymbolId(filePath, '');
+          const parsed = await parseSVGCachedInternal(filePath, sprite);
+          
+          icons.push({
+            id,
+            file: normalizePath(relative(viteRoot, filePath)),
+            // Размер файла и размер <symbol> в спрайте (после SVGO, санитайзера и scopeIds)
+            originalSize: (await stat(filePath)).size,
+            symbolSize: parsed ? Buffer.byteLength(generateSymbol(id, parsed.content, parsed.viewBox, parsed.attributes)) : 0,
+            included: included.has(filePath),
+            violations: parsed?.violations ?? [],
+            references: [...(references.get(id) ?? []), ...(name !== id ? references.get(name) ?? [] : [])]
+          });
         }
-        continue;
+        
+        sprites.push({
+          name: sprite.config.name,
+          spriteId: sprite.config.spriteId,
+          icons,
+          unused: icons.filter(icon => icon.references.length === 0).map(icon => icon.id)
+        });
       }
       
-      symbolIds.add(symbolId);
-      const symbol = generateSymbol(symbolId, parsed.content, parsed.viewBox);
-      symbols.push(symbol);
+      const icons = sprites.flatMap(sprite => sprite.icons);
+      const unused = sprites.flatMap(sprite => sprite.unused);
+      const summary = {
+        icons: icons.length,
+        used: icons.length - unused.length,
+        unused: unused.length,
+        missing: missing.length,
+        originalSize: icons.reduce((total, icon) => total + icon.originalSize, 0),
+        symbolSize: icons.reduce((total, icon) => total + icon.symbolSize, 0)
+      };
+      
+      context.emitFile({
+        type: 'asset',
+        fileName: REPORT_FILE_NAME,
+        source: `${JSON.stringify({ summary, sprites, missing }, null, 2)}\n`
+      });
+      
+      // Сводка выводится всегда: отчет включается явно
+      const lines = [
+        `📊 SVG sprite report (${REPORT_FILE_NAME}):`,
+        `   Icons: ${summary.icons} (${summary.used} used, ${summary.unused} unused), ${summary.missing} missing references`,
+        `   Size: ${(summary.originalSize / 1024).toFixed(2)} KB files → ${(summary.symbolSize / 1024).toFixed(2)} KB symbols`
+      ];
+      if (unused.length > 0) {
+        lines.push(`   Unused: ${unused.join(', ')}`);
+      }
+      for (const { id, file, line } of missing) {
+        lines.push(`   Missing: "${id}" at ${line ? `${file}:${line}` : file}`);
+      }
+      console.log(lines.join('\n'));
     }
     
-    if (duplicates.length > 0 && options.verbose) {
-      logger.warn(
-        `\n⚠️  Found ${duplicates.length} duplicate symbol ID(s). ` +
-        `These icons were skipped to prevent conflicts.\n`
+    if (options.failOnMissingIcons && missing.length > 0) {
+      context.error(
+        `❌ Missing icons referenced (failOnMissingIcons):\n` +
+        missing.map(({ id, file, line }) => `  - "${id}" at ${line ? `${file}:${line}` : file}`).join('\n')
       );
     }
-    
-    return generateSprite(symbols, options);
   }
   
   return {
@@ -965,15 +4609,37 @@ export default function svgSpritePlugin(userOptions: SvgSpriteOptions = {}): Plu
       // Определяем команду
       command = resolvedConfig.command || 'serve';
       
+      // Base URL и папка ассетов для внешнего файла спрайта
+      base = resolvedConfig.base || '/';
+      assetsDir = resolvedConfig.build?.assetsDir ?? 'assets';
+      
+      // 💾 Постоянный кэш разобранных иконок рядом с кэшем зависимостей Vite
+      pluginState.persistentCacheDir = options.persistentCache
+        ? join(resolvedConfig.cacheDir || join(viteRoot, 'node_modules/.vite'), PERSISTENT_CACHE_DIR)
+        : null;
+      
       // ✅ REMOVED: isPreview, isLikelyPreview logic (handled by apply() now)
       
       try {
-        // Валидируем путь к иконкам против path traversal атак
-        validatedIconsFolder = validateIconsPath(options.iconsFolder, viteRoot);
+        // Валидируем пути к иконкам каждого спрайта против path traversal атак
+        for (const sprite of getSpritesInternal()) {
+          sprite.iconsFolder = validateIconsPath(
+            sprite.config.iconsFolder,
+            viteRoot,
+            isMultiSprite ? `sprites.${sprite.config.name}.iconsFolder` : 'iconsFolder'
+          );
+        }
+        
+        // .d.ts с типами иконок тоже должен находиться внутри проекта
+        if (options.dts) {
+          validatedDtsPath = validateIconsPath(options.dts, viteRoot, 'dts');
+        }
         
         if (options.verbose) {
           logger.log(`🏠 Project root: ${viteRoot}`);
-          logger.log(`📁 Validated icons folder: ${validatedIconsFolder}`);
+          for (const sprite of getSpritesInternal()) {
+            logger.log(`📁 Validated icons folder${getSpriteLabel(sprite)}: ${sprite.iconsFolder}`);
+          }
         }
       } catch (error) {
         // Критическая ошибка безопасности - останавливаем сборку
@@ -985,9 +4651,13 @@ export default function svgSpritePlugin(userOptions: SvgSpriteOptions = {}): Plu
     async buildStart() {
       // ✅ REMOVED: isLikelyPreview check (handled by apply() now)
       
+      pluginState.persistentCacheKeys = new Set();
+      
+      logger.log('🎨 SVG Sprite Plugin: Starting sprite generation...');
+      
+      const treeShakingEnabled = getSpritesInternal().some(sprite => sprite.config.treeShaking);
+      
       try {
-        logger.log('🎨 SVG Sprite Plugin: Starting sprite generation...');
-        
         if (options.svgoOptimize) {
           const svgo = await loadSVGOInternal();
           if (svgo) {
@@ -995,68 +4665,60 @@ export default function svgSpritePlugin(userOptions: SvgSpriteOptions = {}): Plu
           }
         }
         
-        // Находим все SVG файлы (используем валидированный путь)
-        const allSvgFiles = await findSVGFiles(validatedIconsFolder, { verbose: options.verbose });
-        
-        if (allSvgFiles.length === 0) {
-          logger.warn(`⚠️  No SVG files found in ${validatedIconsFolder}`);
-          pluginState.spriteContent = generateSprite([], options);
-          return;
+        // Находим все SVG файлы каждого спрайта (используем валидированные пути)
+        for (const sprite of getSpritesInternal()) {
+          sprite.allSvgFiles = await findSVGFiles(sprite.iconsFolder, { verbose: options.verbose });
         }
         
-        logger.log(`📁 Found ${allSvgFiles.length} SVG files`);
-        
-        // 🌲 TREE-SHAKING: Фильтруем только используемые иконки (только в production)
-        let svgFilesToInclude = allSvgFiles;
+        // Типы строятся по всем иконкам папок (до tree-shaking)
+        await writeIconTypesInternal();
         
-        if (options.treeShaking && command === 'build') {
-          logger.log('🌲 Tree-shaking enabled (production mode)');
-          
-          const usedIconIds = await findUsedIconIds(
-            viteRoot,
-            options.scanExtensions,
-            options.verbose
-          );
-          
-          svgFilesToInclude = filterUsedSvgFiles(
-            allSvgFiles,
-            usedIconIds,
-            options.idPrefix,
-            options.verbose
-          );
-          
-          // Если после фильтрации не осталось файлов - используем все (fail-safe)
-          if (svgFilesToInclude.length === 0) {
-            logger.warn('⚠️  Tree-shaking found no used icons, including all (fail-safe)');
-            svgFilesToInclude = allSvgFiles;
-          }
-        } else if (options.treeShaking && command === 'serve') {
+        if (treeShakingEnabled && command === 'serve') {
           // В dev режиме tree-shaking отключен для удобства разработки
           if (options.verbose) {
             logger.log('ℹ️  Tree-shaking skipped in dev mode (all icons included)');
           }
         }
+      } catch (error) {
+        logger.error('❌ Failed to generate sprite:', error);
+        for (const sprite of getSpritesInternal()) {
+          sprite.allSvgFiles = [];
+        }
+      }
+      
+      // 🛡️ Опасное содержимое иконок останавливает сборку (CI с недоверенными иконками)
+      if (options.failOnUnsafeIcons && command === 'build') {
+        await checkUnsafeIconsInternal(this);
+      }
+      
+      // 🌲 TREE-SHAKING и отчет: Использование иконок собирается в transform, спрайты - в renderChunk
+      if ((treeShakingEnabled || isReportEnabled) && command === 'build') {
+        if (treeShakingEnabled) {
+          logger.log('🌲 Tree-shaking enabled (production mode)');
+        }
         
-        pluginState.svgFiles = svgFilesToInclude;
-        pluginState.spriteContent = await buildSpriteFromFilesInternal(pluginState.svgFiles);
-        pluginState.lastHash = await generateHashFromMtime(pluginState.svgFiles, pluginState);
-        
-        const iconCount = getIconCount(pluginState.spriteContent);
-        const spriteSize = (Buffer.byteLength(pluginState.spriteContent) / 1024).toFixed(2);
-        logger.log(`✅ Generated sprite with ${iconCount} icons (${spriteSize} KB)`);
+        pluginState.moduleUsages = new Map();
+        pluginState.moduleReferences = new Map();
         
-        // Дополнительная статистика для tree-shaking
-        if (options.treeShaking && command === 'build' && svgFilesToInclude.length < allSvgFiles.length) {
-          const saved = allSvgFiles.length - svgFilesToInclude.length;
-          const savedPercent = ((saved / allSvgFiles.length) * 100).toFixed(1);
-          logger.log(`💾 Tree-shaking saved ${saved} icons (${savedPercent}% reduction)`);
+        // До сборки HTML и модули получают плейсхолдеры вместо спрайта и URL файла
+        for (const sprite of getSpritesInternal()) {
+          sprite.svgFiles = sprite.allSvgFiles;
+          sprite.spriteContent = createSpritePlaceholder('SPRITE', sprite.config.name);
+          sprite.spriteFileName = '';
+          sprite.spriteUrl = options.output === 'inline' ? '' : createSpritePlaceholder('URL', sprite.config.name);
+          updateSymbolIdsInternal(sprite);
         }
-      } catch (error) {
-        logger.error('❌ Failed to generate sprite:', error);
-        pluginState.spriteContent = generateSprite([], options);
-        pluginState.svgFiles = [];
-        pluginState.lastHash = '';
+        return;
+      }
+      
+      pluginState.moduleUsages = null;
+      
+      // Каждый спрайт генерируется и эмитится независимо
+      for (const sprite of getSpritesInternal()) {
+        await generateSpriteInternal(sprite, null, this);
       }
+      
+      warnCrossSpriteDuplicatesInternal();
     },
     
     transformIndexHtml: {
@@ -1065,213 +4727,430 @@ export default function svgSpritePlugin(userOptions: SvgSpriteOptions = {}): Plu
         // ✅ FIXED: Use ctx.filename (ctx.path doesn't exist in IndexHtmlTransformContext)
         const htmlPath = ctx.filename || '';
         
-        // Per-page tree-shaking: создаем отдельный спрайт для каждой страницы
-        let spriteToInject = pluginState.spriteContent;
+        // output: 'file' - спрайт не инлайнится, ссылки указывают на внешний файл
+        if (command === 'build' && options.output === 'file') {
+          if (pluginState.symbolUrls.size === 0) {
+            return [];
+          }
+          return rewriteSpriteReferences(html, pluginState.symbolUrls);
+        }
+        
+        // Иконки страницы ищутся лениво и один раз для всех спрайтов
+        let usedInThisPage: Set<string> | null = null;
+        const getUsedInThisPage = async (): Promise<Set<string>> => {
+          if (!usedInThisPage) {
+            usedInThisPage = await findUsedIconIdsInFile(join(viteRoot, htmlPath), options.verbose, usageOptions);
+          }
+          return usedInThisPage;
+        };
         
-        if (options.treeShaking && command === 'build' && htmlPath) {
-          // Проверяем кэш
-          if (pluginState.perPageSprites.has(htmlPath)) {
-            spriteToInject = pluginState.perPageSprites.get(htmlPath)!;
-          } else {
-            // Находим иконки, используемые только в этом HTML файле
-            const htmlFilePath = join(viteRoot, htmlPath);
-            const usedInThisPage = await findUsedIconIdsInFile(htmlFilePath, options.verbose);
-            
-            if (usedInThisPage.size > 0) {
-              // Фильтруем SVG файлы для этой страницы
-              const svgForThisPage = filterUsedSvgFiles(
-                pluginState.svgFiles,
-                usedInThisPage,
-                options.idPrefix,
-                false // Не логируем для каждой страницы
-              );
-              
-              // Генерируем спрайт для этой страницы
-              spriteToInject = await buildSpriteFromFilesInternal(svgForThisPage);
-              pluginState.perPageSprites.set(htmlPath, spriteToInject);
+        const isDev = ctx.server !== undefined;
+        
+        // 🔎 Dev: ссылки страницы на несуществующие иконки (опция unknownIcons)
+        if (isDev && htmlPath && options.unknownIcons !== 'off') {
+          await checkModuleIconsInternal(resolve(viteRoot, htmlPath), html);
+        }
+        const tags: any[] = [];
+        
+        for (const sprite of getSpritesInternal()) {
+          // Per-page tree-shaking: создаем отдельный спрайт для каждой страницы
+          let spriteToInject = sprite.spriteContent;
+          
+          if (sprite.config.treeShaking && command === 'build' && htmlPath) {
+            // Проверяем кэш
+            if (sprite.perPageSprites.has(htmlPath)) {
+              spriteToInject = sprite.perPageSprites.get(htmlPath)!;
+            } else {
+              // Находим иконки, используемые только в этом HTML файле
+              const usedIcons = await getUsedInThisPage();
               
-              if (options.verbose) {
-                logger.log(
-                  `📄 ${basename(htmlPath)}: ${usedInThisPage.size} icons ` +
-                  `[${Array.from(usedInThisPage).sort().join(', ')}]`
+              if (usedIcons.size > 0) {
+                // Фильтруем SVG файлы для этой страницы
+                const svgForThisPage = filterUsedSvgFiles(
+                  sprite.svgFiles,
+                  usedIcons,
+                  sprite.config.idPrefix,
+                  false, // Не логируем для каждой страницы
+                  usageOptions.safelist
                 );
+                
+                // Генерируем спрайт для этой страницы
+                spriteToInject = await buildSpriteFromFilesInternal(svgForThisPage, sprite);
+                sprite.perPageSprites.set(htmlPath, spriteToInject);
+                
+                if (options.verbose) {
+                  logger.log(
+                    `📄 ${basename(htmlPath)}${getSpriteLabel(sprite)}: ${getIconCount(spriteToInject)} icons ` +
+                    `[${Array.from(usedIcons).sort().join(', ')}]`
+                  );
+                }
               }
             }
           }
+          
+          if (!spriteToInject) {
+            continue;
+          }
+          
+          const spriteInner = getSpriteInner(spriteToInject);
+          
+          tags.push({
+            tag: 'svg',
+            attrs: {
+              id: sprite.config.spriteId,
+              class: sprite.config.spriteClass,
+              style: options.hoistDefs ? OFFSCREEN_SPRITE_STYLE : HIDDEN_SPRITE_STYLE,
+              xmlns: 'http://www.w3.org/2000/svg'
+            },
+            children: spriteInner,
+            injectTo: 'body-prepend'
+          });
         }
         
-        if (!spriteToInject) {
+        if (tags.length === 0) {
           return [];
         }
         
-        const isDev = ctx.server !== undefined;
-        const tags: any[] = [];
-        
-        const spriteInner = spriteToInject.replace(/<svg[^>]*>|<\/svg>/gi, '').trim();
-        
-        tags.push({
-          tag: 'svg',
-          attrs: {
-            id: options.spriteId,
-            class: options.spriteClass,
-            style: 'display: none;',
-            xmlns: 'http://www.w3.org/2000/svg'
-          },
-          children: spriteInner,
-          injectTo: 'body-prepend'
-        });
-        
+        // HMR клиент (virtual:svg-sprite/client)
         if (isDev && options.watch) {
           tags.push({
             tag: 'script',
             attrs: { type: 'module' },
-            children: `
-if (import.meta.hot) {
-  import.meta.hot.on('svg-sprite-update', (data) => {
-    console.log('🔄 HMR: Updating SVG sprite...', data);
-    const oldSprite = document.getElementById('${options.spriteId}');
-    if (!oldSprite) {
-      console.error('❌ SVG sprite not found in DOM. Expected id: ${options.spriteId}');
-      return;
-    }
-    try {
-      // ✅ БЕЗОПАСНО: Используем DOMParser вместо innerHTML для защиты от XSS
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(data.spriteContent, 'image/svg+xml');
-      
-      // Проверяем на ошибки парсинга XML
-      const parserError = doc.querySelector('parsererror');
-      if (parserError) {
-        console.error('❌ Invalid SVG XML received:', parserError.textContent);
-        return;
+            children: `import '${CLIENT_MODULE_ID}';`,
+            injectTo: 'head'
+          });
+        }
+        
+        return tags;
+      }
+    },
+    
+    // Разрешение виртуальных модулей virtual:svg-sprite, virtual:svg-sprite.css,
+    // virtual:svg-sprite/client, virtual:svg-sprite/ssr, virtual:svg-sprite/shadow
+    // и Icon компонентов virtual:svg-sprite/react | vue | svelte
+    resolveId(id: string) {
+      if (id === VIRTUAL_MODULE_ID) {
+        return RESOLVED_VIRTUAL_MODULE_ID;
+      }
+      if (id === CSS_MODULE_ID) {
+        return RESOLVED_CSS_MODULE_ID;
+      }
+      if (id === CLIENT_MODULE_ID) {
+        return RESOLVED_CLIENT_MODULE_ID;
+      }
+      if (id === SSR_MODULE_ID) {
+        return RESOLVED_SSR_MODULE_ID;
+      }
+      if (id === SHADOW_MODULE_ID) {
+        return RESOLVED_SHADOW_MODULE_ID;
+      }
+      if (ICON_COMPONENT_FRAMEWORKS.some(framework => id === `${VIRTUAL_MODULE_ID}/${framework}`)) {
+        return '\0' + id;
+      }
+      if (id === SVELTE_ICON_MODULE_ID) {
+        return SVELTE_ICON_MODULE_ID;
+      }
+      return null;
+    },
+    
+    // Загрузка виртуальных модулей и отдельных иконок (home.svg?symbol)
+    load(id: string) {
+      // 🔄 HMR клиент (onSpriteUpdate)
+      if (id === RESOLVED_CLIENT_MODULE_ID) {
+        return CLIENT_MODULE_CODE;
       }
       
-      const newSprite = doc.documentElement;
+      // 🌑 Спрайт в shadow DOM (adoptSprite)
+      if (id === RESOLVED_SHADOW_MODULE_ID) {
+        return generateShadowModuleCode(Object.fromEntries(
+          getSpritesInternal().map(sprite => [sprite.config.name, sprite.spriteContent])
+        ));
+      }
       
-      // Дополнительная валидация: убеждаемся что это действительно SVG
-      if (!newSprite || newSprite.tagName.toLowerCase() !== 'svg') {
-        console.error('❌ Expected <svg> root element, got:', newSprite?.tagName);
-        return;
+      // 🖥️ Серверный рендеринг спрайта (renderSprite)
+      if (id === RESOLVED_SSR_MODULE_ID) {
+        return generateSsrModuleInternal();
       }
       
-      // Безопасное обновление: берем innerHTML из валидированного элемента
-      // Данные уже прошли валидацию через DOMParser, поэтому безопасно
-      oldSprite.innerHTML = newSprite.innerHTML;
+      // 🧩 Icon компоненты фреймворков
+      const framework = ICON_COMPONENT_FRAMEWORKS.find(name => id === `\0${VIRTUAL_MODULE_ID}/${name}`);
+      if (framework) {
+        return generateIconComponentCode(framework, options.output === 'file');
+      }
+      if (id === SVELTE_ICON_MODULE_ID) {
+        return generateSvelteIconCode(options.output === 'file');
+      }
       
-      // Принудительно обновляем все <use> элементы с более агрессивным подходом
-      const useElements = document.querySelectorAll('use[href^="#"]');
+      // 🔣 Отдельная иконка: home.svg?symbol
+      if (id.includes('.svg?')) {
+        return loadSymbolModuleInternal(id, this);
+      }
       
-      // Сохраняем все href
-      const hrefs = Array.from(useElements).map(use => ({
-        element: use,
-        href: use.getAttribute('href'),
-        parentSVG: use.closest('svg')
-      }));
+      // 🎨 Stylesheet для CSS фонов (опция css)
+      if (id === RESOLVED_CSS_MODULE_ID) {
+        if (!cssOptions) {
+          this.error(`${CSS_MODULE_ID} requires the css option of the SVG Sprite Plugin`);
+        }
+        return generateCssInternal(cssOptions.prefix);
+      }
+      
+      if (id !== RESOLVED_VIRTUAL_MODULE_ID) {
+        return null;
+      }
+      
+      const sprites = getSpritesInternal();
+      const [primary] = sprites;
       
-      // Сбрасываем все href
-      hrefs.forEach(({ element }) => {
-        element.removeAttribute('href');
+      // При tree-shaking ID символов известны только в renderChunk
+      const isDeferred = pluginState.moduleUsages !== null;
+      
+      return generateVirtualModuleCode({
+        spriteId: primary.config.spriteId,
+        iconIds: isDeferred ? createSpritePlaceholder('ICONS') : getAllIconIdsInternal(),
+        sprite: primary.spriteContent,
+        spriteUrl: primary.spriteUrl,
+        sprites: Object.fromEntries(sprites.map(sprite => [sprite.config.name, {
+          spriteId: sprite.config.spriteId,
+          iconIds: isDeferred ? createSpritePlaceholder('ICONS', sprite.config.name) : Array.from(sprite.symbolIds).sort(),
+          sprite: sprite.spriteContent,
+          spriteUrl: sprite.spriteUrl
+        }]))
       });
+    },
+    
+    // Сбор использования иконок (tree-shaking) и переписывание ссылок на символы (output: 'file')
+    async transform(code: string, id: string) {
+      if (!scanFilter(id)) {
+        return null;
+      }
       
-      // Принудительная перерисовка через тройной RAF + явный reflow
-      requestAnimationFrame(() => {
-        // Принудительный reflow
-        document.body.offsetHeight;
+      // 🔎 Dev: ссылки на несуществующие иконки (опция unknownIcons)
+      if (command !== 'build') {
+        if (options.unknownIcons !== 'off') {
+          await checkModuleIconsInternal(id, code);
+        }
+        return null;
+      }
+      
+      // 🌲 TREE-SHAKING: Итог считается в renderChunk только по модулям, попавшим в бандл
+      if (pluginState.moduleUsages) {
+        const contextIds = new Set<string>();
+        const iconIds = await extractIconUsages(code, id, getModuleUsageOptionsInternal(code), options.verbose, contextIds);
+        pluginState.moduleUsages.set(id, iconIds);
         
-        requestAnimationFrame(() => {
-          // Восстанавливаем href
-          hrefs.forEach(({ element, href, parentSVG }) => {
-            if (href) {
-              element.setAttribute('href', href);
-              // Принудительный reflow для каждого SVG родителя
-              if (parentSVG) {
-                parentSVG.style.display = 'none';
-                parentSVG.offsetHeight; // Trigger reflow
-                parentSVG.style.display = '';
-              }
-            }
-          });
-          
-          requestAnimationFrame(() => {
-            // Финальная перерисовка
-            document.body.offsetHeight;
-          });
-        });
-      });
+        if (isReportEnabled) {
+          pluginState.moduleReferences.set(id, locateIconReferences(code, iconIds, contextIds));
+        }
+      }
       
-      console.log(\`✅ HMR: Sprite updated with \${data.iconCount} icons\`);
-    } catch (error) {
-      console.error('HMR: Failed to update sprite:', error);
-    }
-  });
-  console.log('🎨 SVG Sprite HMR: Ready');
-}
-            `.trim(),
-            injectTo: 'head'
-          });
+      if (options.output !== 'file' || pluginState.symbolUrls.size === 0) {
+        return null;
+      }
+      
+      const rewritten = rewriteSpriteReferences(code, pluginState.symbolUrls);
+      if (rewritten === code) {
+        return null;
+      }
+      
+      return { code: rewritten, map: null };
+    },
+    
+    // Сборка спрайтов при tree-shaking (после рендера чанков и HTML страниц)
+    // 🌲 Спрайты при tree-shaking подставляются до хеширования имен чанков:
+    // изменение иконки меняет имена чанков, ссылающихся на спрайт
+    async renderChunk(code: string, chunk: Rollup.RenderedChunk, _outputOptions: Rollup.NormalizedOutputOptions, meta: { chunks: Record<string, Rollup.RenderedChunk> }) {
+      if (!pluginState.moduleUsages) {
+        return null;
+      }
+      
+      const { values, urls, chunkSprites } = await getBundleSpritesInternal(meta.chunks, this);
+      let result = replacePlaceholders(replaceLiteralPlaceholders(code, values), urls);
+      
+      // 🧩 chunkSprites: lazy чанк при импорте добавляет свои символы в контейнер спрайта
+      if (chunkSprites.has(chunk.fileName)) {
+        result += `\n${chunkSprites.get(chunk.fileName)}`;
+      }
+      
+      // Код до подстановок не сдвигается: плейсхолдеры заменяются в строках, спрайт чанка добавляется в конец
+      return result === code ? null : { code: result, map: null };
+    },
+    
+    // HTML страницы и отчет - после рендера HTML
+    generateBundle: {
+      order: 'post',
+      async handler(_outputOptions: Rollup.NormalizedOutputOptions, bundle: Rollup.OutputBundle) {
+        if (!pluginState.moduleUsages) {
+          return;
         }
         
-        return tags;
+        // Без JS чанков renderChunk не вызывается - спрайты собираются по бандлу
+        const { markup, urls, bundledModuleIds } = await (pluginState.bundleSprites?.result ?? buildBundleSpritesInternal(bundle, this));
+        pluginState.bundleSprites = null;
+        
+        for (const output of Object.values(bundle)) {
+          if (output.type === 'asset' && output.fileName.endsWith('.html') && typeof output.source === 'string') {
+            output.source = replacePlaceholders(output.source, new Map([...markup, ...urls]));
+          }
+        }
+        
+        if (isReportEnabled) {
+          await reportIconUsageInternal(bundledModuleIds, this);
+        }
       }
     },
     
     configureServer(server: ViteDevServer) {
-      if (!options.watch) return;
+      pluginState.devServer = server;
       
-      // Отслеживаем изменения в папке с иконками (используем валидированный путь)
-      server.watcher.add(validatedIconsFolder);
-      
-      // Функция для регенерации и отправки обновлений через HMR
-      pluginState.regenerateSprite = debounce(async () => {
-        try {
-          logger.log('🔄 SVG files changed, regenerating sprite...');
-          
-          // Перегенерируем спрайт (используем валидированный путь)
-          const newSvgFiles = await findSVGFiles(validatedIconsFolder, { verbose: options.verbose });
-          
-          if (newSvgFiles.length === 0) {
-            logger.warn(`⚠️  No SVG files found in ${validatedIconsFolder}`);
-            pluginState.spriteContent = generateSprite([], options);
-            pluginState.lastHash = '';
-            
-            // Отправляем пустой спрайт через HMR
-            server.ws.send({
-              type: 'custom',
-              event: 'svg-sprite-update',
-              data: { spriteContent: pluginState.spriteContent, iconCount: 0 }
-            });
-            return;
+      // В dev режиме файлы спрайтов отдаются middleware (спрайты при этом инлайнятся для HMR)
+      if (options.output !== 'inline') {
+        for (const sprite of getSpritesInternal()) {
+          sprite.spriteUrl = `${base.endsWith('/') ? base : `${base}/`}${DEV_SPRITE_DIR}/${sprite.config.name}.svg`;
+        }
+        
+        server.middlewares.use(async (req, res, next) => {
+          const pathname = (req.url || '').split('?')[0];
+          const sprite = getSpritesInternal().find(current => current.spriteUrl === pathname);
+          if (!sprite) {
+            return next();
           }
           
-          const newHash = await generateHashFromMtime(newSvgFiles, pluginState);
+          try {
+            const source = await buildSpriteFileInternal(sprite);
+            res.setHeader('Content-Type', 'image/svg+xml');
+            res.setHeader('Cache-Control', 'no-cache');
+            res.end(source);
+          } catch (error) {
+            next(error);
+          }
+        });
+      }
+      
+      if (!options.watch) return;
+      
+      // Инвалидирует виртуальный модуль, чтобы импорты получили актуальные иконки
+      const invalidateVirtualModule = async () => {
+        // virtual:svg-sprite.css обновляется как обычный CSS модуль (без перезагрузки страницы)
+        const moduleIds = cssOptions
+          ? [RESOLVED_VIRTUAL_MODULE_ID, RESOLVED_SSR_MODULE_ID, RESOLVED_SHADOW_MODULE_ID, RESOLVED_CSS_MODULE_ID]
+          : [RESOLVED_VIRTUAL_MODULE_ID, RESOLVED_SSR_MODULE_ID, RESOLVED_SHADOW_MODULE_ID];
+        
+        for (const moduleId of moduleIds) {
+          const mod = server.moduleGraph?.getModuleById(moduleId);
+          if (!mod) {
+            continue;
+          }
           
-          // Проверяем, изменился ли контент
-          if (newHash !== pluginState.lastHash) {
-            pluginState.svgFiles = newSvgFiles;
-            pluginState.spriteContent = await buildSpriteFromFilesInternal(pluginState.svgFiles);
-            pluginState.lastHash = newHash;
+          if (typeof server.reloadModule === 'function') {
+            await server.reloadModule(mod);
+          } else {
+            server.moduleGraph.invalidateModule(mod);
+            server.ws.send({ type: 'full-reload', path: '*' });
+          }
+        }
+      };
+      
+      // Отправляет обновление спрайта через HMR (payload содержит имя и ID спрайта)
+      // С diff отправляются только добавленные, измененные и удаленные символы, без него - весь спрайт
+      const sendSpriteUpdate = (sprite: SpriteState, spriteContent: string, diff: SpriteSymbolsDiff | null = null) => {
+        server.ws.send({
+          type: 'custom',
+          event: 'svg-sprite-update',
+          data: {
+            name: sprite.config.name,
+            spriteId: sprite.config.spriteId,
+            ...(diff || { spriteContent }),
+            iconCount: getIconCount(spriteContent)
+          }
+        });
+      };
+      
+      for (const sprite of getSpritesInternal()) {
+        const label = getSpriteLabel(sprite);
+        
+        // Отслеживаем изменения в папке с иконками (используем валидированный путь)
+        server.watcher.add(sprite.iconsFolder);
+        
+        // Функция для регенерации и отправки обновлений через HMR
+        sprite.regenerateSprite = debounce(async () => {
+          try {
+            logger.log(`🔄 SVG files changed, regenerating sprite${label}...`);
+            
+            const changedFiles = Array.from(sprite.changedFiles);
+            sprite.changedFiles.clear();
+            
+            // Перегенерируем спрайт (используем валидированный путь)
+            const newSvgFiles = await findSVGFiles(sprite.iconsFolder, { verbose: options.verbose });
+            
+            if (newSvgFiles.length === 0) {
+              logger.warn(`⚠️  No SVG files found in ${sprite.iconsFolder}`);
+              sprite.spriteContent = generateSprite([], sprite.config);
+              sprite.lastHash = '';
+              sprite.allSvgFiles = [];
+              sprite.svgFiles = [];
+              sprite.symbolMarkup = new Map();
+              updateSymbolIdsInternal(sprite);
+              
+              // Отправляем пустой спрайт через HMR
+              sendSpriteUpdate(sprite, sprite.spriteContent);
+              await invalidateVirtualModule();
+              await writeIconTypesInternal();
+              checkIconReferencesInternal();
+              return;
+            }
             
-            // Отправляем обновление через HMR вместо полной перезагрузки
-            server.ws.send({
-              type: 'custom',
-              event: 'svg-sprite-update',
-              data: { spriteContent: pluginState.spriteContent, iconCount: getIconCount(pluginState.spriteContent) }
-            });
+            const newHash = await generateHashFromContent(newSvgFiles);
             
-            logger.log(`✅ HMR: Sprite updated with ${getIconCount(pluginState.spriteContent)} icons`);
+            // Проверяем, изменился ли контент
+            if (newHash !== sprite.lastHash) {
+              sprite.allSvgFiles = newSvgFiles;
+              sprite.svgFiles = newSvgFiles;
+              
+              const previousMarkup = sprite.symbolMarkup;
+              sprite.symbolMarkup = new Map();
+              sprite.spriteContent = await buildSpriteFromFilesInternal(sprite.svgFiles, sprite, sprite.symbolMarkup);
+              sprite.lastHash = newHash;
+              updateSymbolIdsInternal(sprite);
+              
+              // Гранулярное обновление: только символы измененных файлов
+              // Общий <defs> (hoistDefs) меняется вместе с любой иконкой, поэтому с ним отправляется весь спрайт,
+              // как и когда изменения не удалось связать с символами
+              const diff = previousMarkup && !options.hoistDefs
+                ? diffSpriteSymbols(changedFiles.map(file => generateSymbolId(file, sprite.config.idPrefix)), previousMarkup, sprite.symbolMarkup)
+                : null;
+              const hasChanges = diff && diff.added.length + diff.changed.length + diff.removed.length > 0;
+              
+              // Отправляем обновление через HMR вместо полной перезагрузки
+              sendSpriteUpdate(sprite, sprite.spriteContent, hasChanges ? diff : null);
+              
+              // Обновляем импорты virtual:svg-sprite через module graph
+              await invalidateVirtualModule();
+              await writeIconTypesInternal();
+              checkIconReferencesInternal();
+              
+              logger.log(`✅ HMR: Sprite${label} updated with ${getIconCount(sprite.spriteContent)} icons`);
+            }
+          } catch (error) {
+            logger.error(`❌ Failed to regenerate sprite${label}:`, error);
+            // В случае ошибки делаем полную перезагрузку
+            server.ws.send({ type: 'full-reload', path: '*' });
           }
-        } catch (error) {
-          logger.error('❌ Failed to regenerate sprite:', error);
-          // В случае ошибки делаем полную перезагрузку
-          server.ws.send({ type: 'full-reload', path: '*' });
-        }
-      }, options.debounceDelay);
+        }, options.debounceDelay);
+      }
       
       // Отслеживаем все типы изменений: change, add, unlink
+      // Регенерируется только спрайт, в папке которого изменился файл
       const handleFileEvent = (file: string) => {
         const normalizedFile = normalizePath(file);
-        if (normalizedFile.endsWith('.svg') && normalizedFile.includes(validatedIconsFolder)) {
-          pluginState.regenerateSprite!();
+        if (!normalizedFile.endsWith('.svg')) {
+          return;
+        }
+        
+        for (const sprite of getSpritesInternal()) {
+          if (normalizedFile.startsWith(`${sprite.iconsFolder}/`)) {
+            sprite.changedFiles.add(normalizedFile);
+            sprite.regenerateSprite?.();
+          }
         }
       };
       
@@ -1287,22 +5166,47 @@ if (import.meta.hot) {
         server.watcher.off('unlink', handleFileEvent);
         
         // Отменяем pending debounce
-        pluginState.regenerateSprite?.cancel();
+        for (const sprite of getSpritesInternal()) {
+          sprite.regenerateSprite?.cancel();
+        }
         
-        // Очищаем кэш
+        // Очищаем кэш и останавливаем worker
         pluginState.parseCache.clear();
+        closeWorkerPoolInternal();
       });
       
-      logger.log(`👀 Watching ${validatedIconsFolder} for SVG changes (HMR enabled)`);
+      for (const sprite of getSpritesInternal()) {
+        logger.log(`👀 Watching ${sprite.iconsFolder} for SVG changes${getSpriteLabel(sprite)} (HMR enabled)`);
+      }
     },
     
     buildEnd() {
-      if (pluginState.spriteContent) {
-        const iconCount = getIconCount(pluginState.spriteContent);
+      const sprites = getSpritesInternal();
+      
+      if (sprites.some(sprite => sprite.spriteContent)) {
+        const iconCount = sprites.reduce((total, sprite) => total + getIconCount(sprite.spriteContent), 0);
         logger.log(`🎨 SVG Sprite Plugin: Build completed successfully (${iconCount} icons)`);
       }
-      pluginState.regenerateSprite?.cancel();
+      
+      for (const sprite of sprites) {
+        if (sprite.spriteFileName) {
+          logger.log(`📦 Sprite file${getSpriteLabel(sprite)}: ${sprite.spriteUrl}`);
+        }
+        sprite.regenerateSprite?.cancel();
+      }
+    },
+    
+    // 🧵 Пул worker нужен до renderChunk и generateBundle (tree-shaking, chunkSprites), останавливается после записи бандла;
+    // 💾 тогда же из постоянного кэша удаляются записи, не использованные сборкой
+    async closeBundle() {
+      await closeWorkerPoolInternal();
+      await prunePersistentCacheInternal();
     }
   };
 }
 
+// 🧵 Модуль загружен как worker пула разбора SVG (опция workers)
+if (!isMainThread && workerData?.[SVG_WORKER_FLAG]) {
+  startSVGWorker();
+}
+
@@ -0,0 +1,42 @@
+/**
+ * Vite SVG Sprite Plugin - Vue Icon Component Types
+ *
+ * @example
+ * ```ts
+ * // src/vite-env.d.ts
+ * /// <reference types="vite-svg-sprite-generator-plugin/vue" />
+ * ```
+ */
+
+/// <reference path="./client.d.ts" />
+
+declare module 'virtual:svg-sprite/vue' {
+  import type { DefineComponent } from 'vue';
+  import type { IconProps } from 'virtual:svg-sprite';
+
+  export type { IconProps };
+
+  /**
+   * `<svg><use href="#name" /></svg>`: атрибуты (class, style, обработчики) передаются в `<svg>`
+   * @example
+   * ```vue
+   * <Icon name="home" :size="24" title="Home" class="nav-icon" />
+   * ```
+   */
+  export const Icon: DefineComponent<IconProps>;
+  export default Icon;
+}
+
+/** Отдельная иконка Vue компонентом с инлайн `<svg>`: `import HomeIcon from './icons/home.svg?symbol=vue'` */
+declare module '*.svg?symbol=vue' {
+  import type { DefineComponent } from 'vue';
+  import type { IconProps } from 'virtual:svg-sprite';
+
+  export const id: string;
+  export const viewBox: string;
+  export const url: string;
+  export const svg: string;
+
+  const SymbolIcon: DefineComponent<Omit<IconProps, 'name'>>;
+  export default SymbolIcon;
+}